@@ -30,6 +30,7 @@ const envSchema = z
     API_VERSION: z.string().default("v1"),
     API_BASE_PATH: z.string().default("/api"),
     FHIR_BASE_PATH: z.string().default("/fhir"),
+    PUBLIC_BASE_URL: z.string().url().optional(),
 
     // Security
     BCRYPT_ROUNDS: z.string().transform(Number).default("12"),
@@ -56,6 +57,27 @@ const envSchema = z
       .transform((val) => val === "true")
       .default("true"),
 
+    // Billing
+    ENABLE_OVERDUE_INVOICE_JOB: z
+      .string()
+      .transform((val) => val === "true")
+      .default("true"),
+    OVERDUE_INVOICE_CHECK_INTERVAL_MINUTES: z
+      .string()
+      .transform(Number)
+      .default("60"),
+
+    // Inventory
+    ENABLE_INVENTORY_ALERT_JOB: z
+      .string()
+      .transform((val) => val === "true")
+      .default("true"),
+    INVENTORY_ALERT_CHECK_INTERVAL_MINUTES: z
+      .string()
+      .transform(Number)
+      .default("360"),
+    INVENTORY_EXPIRY_WINDOW_DAYS: z.string().transform(Number).default("30"),
+
     // Development
     ENABLE_SWAGGER: z
       .string()
@@ -234,6 +256,8 @@ export const config = {
     version: env.API_VERSION,
     basePath: env.API_BASE_PATH,
     fhirPath: env.FHIR_BASE_PATH,
+    // Externally reachable origin of this server (e.g. https://api.example.org)
+    publicBaseUrl: env.PUBLIC_BASE_URL,
   },
 
   security: {
@@ -330,6 +354,17 @@ export const config = {
     performanceMonitoring: env.ENABLE_PERFORMANCE_MONITORING,
   },
 
+  billing: {
+    overdueJobEnabled: env.ENABLE_OVERDUE_INVOICE_JOB,
+    overdueCheckIntervalMinutes: env.OVERDUE_INVOICE_CHECK_INTERVAL_MINUTES,
+  },
+
+  inventory: {
+    alertJobEnabled: env.ENABLE_INVENTORY_ALERT_JOB,
+    alertCheckIntervalMinutes: env.INVENTORY_ALERT_CHECK_INTERVAL_MINUTES,
+    expiryWindowDays: env.INVENTORY_EXPIRY_WINDOW_DAYS,
+  },
+
   development: {
     enableSwagger: env.ENABLE_SWAGGER,
     enableRequestLogging: env.ENABLE_REQUEST_LOGGING,
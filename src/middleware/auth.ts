@@ -3,8 +3,9 @@ import { createOperationOutcome } from "../utils/fhir.js";
 import { User } from "../types/auth.js";
 import { config } from "../config/environment.js";
 
-declare module "fastify" {
-  interface FastifyRequest {
+// @fastify/jwt already declares request.user, so type it through FastifyJWT
+declare module "@fastify/jwt" {
+  interface FastifyJWT {
     user: User;
   }
 }
@@ -21,6 +22,7 @@ export default async function authMiddleware(server: FastifyInstance) {
         "/debug",
         `${config.api.basePath}/auth/login`,
         `${config.api.basePath}/auth/register`,
+        `${config.api.fhirPath}/metadata`,
         "/docs",
         "/docs/static",
         "/docs/json",
@@ -1,11 +1,58 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { createOperationOutcome, transformAppointmentFromDB, transformAppointmentToDB, createBundle } from '../utils/fhir.js';
-import { FHIRAppointment } from '../types/fhir.js';
+import { Prisma } from '@prisma/client';
+import { createOperationOutcome, parseDateSearchParams, transformAppointmentFromDB, transformAppointmentToDB, transformEncounterFromDB, transformPatientFromDB, transformPractitionerFromDB, createSearchBundle, getSearchPaging, getSearchOrderBy, searchResultParamsSchema, SearchResultParams } from '../utils/fhir.js';
+import { createHistoryBundle, getInstanceHistory, getResourceVersion, getTypeHistory, historyParamsSchema, isVersionConflict, matchesIfMatch, NEXT_VERSION, saveResourceVersion, versionHeaders } from '../utils/history.js';
+import { applyJsonPatch, clearRemovedFields, jsonPatchSchema, JsonPatchOperation, rejectFhirPathPatch, validatePatchedResource } from '../utils/patch.js';
+import { createValidationOutcome, validateResource } from '../utils/validation.js';
+import { FHIRAppointment, FHIRBundleEntry } from '../types/fhir.js';
+
+type AppointmentSearchQuery = {
+  patient?: string, practitioner?: string, date?: string[], status?: string,
+  _include?: string[], _revinclude?: string[]
+} & SearchResultParams;
+
+// _sort parameters supported by Appointment search and the fields they order by
+const APPOINTMENT_SORT_FIELDS: Record<string, string> = {
+  date: 'start',
+  status: 'status',
+  _lastUpdated: 'updatedAt'
+};
+
+// Request body schema for updating an appointment
+const appointmentUpdateSchema = {
+  type: "object",
+  required: ["resourceType", "status"],
+  properties: {
+    resourceType: { type: "string", enum: ["Appointment"] },
+    status: { type: "string" },
+    start: { type: "string" },
+    end: { type: "string" },
+    description: { type: "string" },
+    comment: { type: "string" },
+    minutesDuration: { type: "number" }
+  }
+};
+
+// A patched appointment is saved whole, so it must also keep its start and end
+const appointmentPatchSchema = {
+  ...appointmentUpdateSchema,
+  required: [...appointmentUpdateSchema.required, "start", "end"]
+};
 
 export default async function appointmentRoutes(server: FastifyInstance) {
 
+  // Load an appointment in one of the user's organizations
+  function findAccessibleAppointment(id: string, organizationIds: string[]) {
+    return server.prisma.appointment.findFirst({
+      where: {
+        id,
+        organizationId: { in: organizationIds }
+      }
+    });
+  }
+
   // GET /fhir/Appointment - Search appointments
-  server.get<{ Querystring: { patient?: string, practitioner?: string, date?: string, status?: string } }>(
+  server.get<{ Querystring: AppointmentSearchQuery }>(
     '/Appointment',
     {
       schema: {
@@ -17,15 +64,18 @@ export default async function appointmentRoutes(server: FastifyInstance) {
           properties: {
             patient: { type: "string" },
             practitioner: { type: "string" },
-            date: { type: "string" },
-            status: { type: "string" }
+            date: { type: "array", items: { type: "string" } },
+            status: { type: "string" },
+            _include: { type: "array", items: { type: "string", enum: ["Appointment:patient", "Appointment:practitioner"] } },
+            _revinclude: { type: "array", items: { type: "string", enum: ["Encounter:appointment"] } },
+            ...searchResultParamsSchema
           }
         }
       }
     },
-    async (request: FastifyRequest<{ Querystring: { patient?: string, practitioner?: string, date?: string, status?: string } }>, reply: FastifyReply) => {
+    async (request: FastifyRequest<{ Querystring: AppointmentSearchQuery }>, reply: FastifyReply) => {
     try {
-      const { organizationIds, currentOrganizationId } = request.user;
+      const { organizationIds } = request.user;
       const query = request.query;
 
       let where: any = {
@@ -42,16 +92,13 @@ export default async function appointmentRoutes(server: FastifyInstance) {
         where.practitionerId = query.practitioner;
       }
 
-      // Date filtering
+      // Start date range filtering
       if (query.date) {
-        const startDate = new Date(query.date);
-        const endDate = new Date(startDate);
-        endDate.setDate(endDate.getDate() + 1);
-        
-        where.start = {
-          gte: startDate,
-          lt: endDate
-        };
+        const dateFilter = parseDateSearchParams(query.date);
+        if (!dateFilter) {
+          return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Invalid date search parameter'));
+        }
+        where.start = dateFilter;
       }
 
       // Status filtering
@@ -59,27 +106,78 @@ export default async function appointmentRoutes(server: FastifyInstance) {
         where.status = query.status;
       }
 
-      const appointments = await server.prisma.appointment.findMany({
-        where,
-        include: {
-          patient: {
-            select: { id: true, name: true }
-          },
-          practitioner: {
-            select: { id: true, name: true }
+      const paging = getSearchPaging(query);
+      const orderBy = getSearchOrderBy(query, APPOINTMENT_SORT_FIELDS, { start: 'asc' });
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${query._sort}`));
+      }
+
+      const includePatients = query._include?.includes('Appointment:patient');
+      const includePractitioners = query._include?.includes('Appointment:practitioner');
+
+      const [appointments, total] = await Promise.all([
+        server.prisma.appointment.findMany({
+          where,
+          include: {
+            patient: includePatients || {
+              select: { id: true, name: true }
+            },
+            practitioner: includePractitioners || {
+              select: { id: true, name: true }
+            },
+            organization: {
+              select: { id: true, name: true }
+            }
           },
-          organization: {
-            select: { id: true, name: true }
-          }
-        }
-      });
+          orderBy,
+          ...paging
+        }),
+        server.prisma.appointment.count({ where })
+      ]);
 
-      const entries = appointments.map(appointment => ({
+      const entries: FHIRBundleEntry[] = appointments.map(appointment => ({
         fullUrl: `${request.protocol}://${request.hostname}/fhir/Appointment/${appointment.id}`,
-        resource: transformAppointmentFromDB(appointment)
+        resource: transformAppointmentFromDB(appointment),
+        search: { mode: 'match' }
       }));
 
-      const bundle = createBundle("searchset", entries);
+      // Add referenced patients and practitioners when requested (once each)
+      if (includePatients) {
+        const patients = new Map(appointments.map(appointment => [appointment.patient.id, appointment.patient]));
+        entries.push(...[...patients.values()].map(patient => ({
+          fullUrl: `${request.protocol}://${request.hostname}/fhir/Patient/${patient.id}`,
+          resource: transformPatientFromDB(patient),
+          search: { mode: 'include' }
+        })));
+      }
+
+      if (includePractitioners) {
+        const practitioners = new Map(appointments.map(appointment => [appointment.practitioner.id, appointment.practitioner]));
+        entries.push(...[...practitioners.values()].map(practitioner => ({
+          fullUrl: `${request.protocol}://${request.hostname}/fhir/Practitioner/${practitioner.id}`,
+          resource: transformPractitionerFromDB(practitioner),
+          search: { mode: 'include' }
+        })));
+      }
+
+      // Add encounters that reference the matched appointments when requested
+      if (query._revinclude?.includes('Encounter:appointment') && appointments.length > 0) {
+        const encounters = await server.prisma.encounter.findMany({
+          where: {
+            appointmentId: { in: appointments.map(appointment => appointment.id) },
+            organizationId: { in: organizationIds }
+          },
+          orderBy: { createdAt: 'desc' }
+        });
+
+        entries.push(...encounters.map(encounter => ({
+          fullUrl: `${request.protocol}://${request.hostname}/fhir/Encounter/${encounter.id}`,
+          resource: transformEncounterFromDB(encounter),
+          search: { mode: 'include' }
+        })));
+      }
+
+      const bundle = createSearchBundle(request, entries, total, paging);
       reply.send(bundle);
 
     } catch (error) {
@@ -131,7 +229,8 @@ export default async function appointmentRoutes(server: FastifyInstance) {
         return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Appointment not found'));
       }
 
-      reply.send(transformAppointmentFromDB(appointment));
+      const resource = transformAppointmentFromDB(appointment);
+      reply.headers(versionHeaders(resource)).send(resource);
 
     } catch (error) {
       server.log.error('Get appointment error:', error);
@@ -139,6 +238,122 @@ export default async function appointmentRoutes(server: FastifyInstance) {
     }
   });
 
+  // GET /fhir/Appointment/_history - Version history of appointments in the user's organizations
+  server.get<{ Querystring: SearchResultParams }>(
+    '/Appointment/_history',
+    {
+      schema: {
+        tags: ["Appointments"],
+        description: "Appointment type history (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            ...historyParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: SearchResultParams }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const paging = getSearchPaging(request.query);
+
+      const history = await getTypeHistory(server.prisma, 'Appointment', organizationIds, {
+        table: 'appointments',
+        access: ids => Prisma.sql`r."organizationId" IN (${Prisma.join(ids)})`,
+        load: async ids => (await server.prisma.appointment.findMany({ where: { id: { in: ids } } }))
+          .map(appointment => transformAppointmentFromDB(appointment))
+      }, paging);
+
+      reply.send(createHistoryBundle(request, history.versions, history.total, paging));
+
+    } catch (error) {
+      server.log.error('Appointment history error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Appointment/:id/_history - All versions of a appointment
+  server.get<{ Params: { id: string }, Querystring: SearchResultParams }>(
+    '/Appointment/:id/_history',
+    {
+      schema: {
+        tags: ["Appointments"],
+        description: "Appointment instance history (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            ...historyParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Querystring: SearchResultParams }>, reply: FastifyReply) => {
+    try {
+      const appointment = await findAccessibleAppointment(request.params.id, request.user.organizationIds);
+
+      if (!appointment) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Appointment not found'));
+      }
+
+      const paging = getSearchPaging(request.query);
+      const history = await getInstanceHistory(server.prisma, transformAppointmentFromDB(appointment), paging);
+
+      reply.send(createHistoryBundle(request, history.versions, history.total, paging));
+
+    } catch (error) {
+      server.log.error('Appointment instance history error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Appointment/:id/_history/:vid - Read a specific version of a appointment
+  server.get<{ Params: { id: string, vid: string } }>(
+    '/Appointment/:id/_history/:vid',
+    {
+      schema: {
+        tags: ["Appointments"],
+        description: "Read appointment version (FHIR vread)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            vid: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string, vid: string } }>, reply: FastifyReply) => {
+    try {
+      const appointment = await findAccessibleAppointment(request.params.id, request.user.organizationIds);
+
+      if (!appointment) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Appointment not found'));
+      }
+
+      const version = await getResourceVersion(server.prisma, transformAppointmentFromDB(appointment), request.params.vid);
+
+      if (!version) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', `Appointment version ${request.params.vid} not found`));
+      }
+
+      reply.headers(versionHeaders(version)).send(version);
+
+    } catch (error) {
+      server.log.error('Appointment vread error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
   // POST /fhir/Appointment - Create appointment
   server.post<{ Body: FHIRAppointment & { patientId: string, practitionerId: string } }>(
     '/Appointment',
@@ -166,6 +381,11 @@ export default async function appointmentRoutes(server: FastifyInstance) {
     },
     async (request: FastifyRequest<{ Body: FHIRAppointment & { patientId: string, practitionerId: string } }>, reply: FastifyReply) => {
     try {
+      const issues = validateResource(request.body);
+      if (issues.length > 0) {
+        return reply.code(400).send(createValidationOutcome(issues));
+      }
+
       const { currentOrganizationId } = request.user;
       const { patientId, practitionerId, ...appointmentData } = request.body;
 
@@ -208,7 +428,8 @@ export default async function appointmentRoutes(server: FastifyInstance) {
         data: dbAppointmentData
       });
 
-      reply.code(201).send(transformAppointmentFromDB(appointment));
+      const resource = transformAppointmentFromDB(appointment);
+      reply.code(201).headers(versionHeaders(resource)).send(resource);
 
     } catch (error) {
       server.log.error('Create appointment error:', error);
@@ -230,23 +451,16 @@ export default async function appointmentRoutes(server: FastifyInstance) {
             id: { type: "string" }
           }
         },
-        body: {
-          type: "object",
-          required: ["resourceType", "status"],
-          properties: {
-            resourceType: { type: "string", enum: ["Appointment"] },
-            status: { type: "string" },
-            start: { type: "string" },
-            end: { type: "string" },
-            description: { type: "string" },
-            comment: { type: "string" },
-            minutesDuration: { type: "number" }
-          }
-        }
+        body: appointmentUpdateSchema
       }
     },
     async (request: FastifyRequest<{ Params: { id: string }, Body: FHIRAppointment }>, reply: FastifyReply) => {
     try {
+      const issues = validateResource(request.body);
+      if (issues.length > 0) {
+        return reply.code(400).send(createValidationOutcome(issues));
+      }
+
       const { id } = request.params;
       const { organizationIds } = request.user;
 
@@ -262,6 +476,11 @@ export default async function appointmentRoutes(server: FastifyInstance) {
         return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Appointment not found'));
       }
 
+      // Reject the update if the client edited an older version
+      if (!matchesIfMatch(request.headers['if-match'], existingAppointment.versionId)) {
+        return reply.code(412).send(createOperationOutcome('error', 'conflict', `Appointment has been modified; current version is ${existingAppointment.versionId}`));
+      }
+
       const updateData = {
         status: request.body.status,
         description: request.body.description,
@@ -276,19 +495,101 @@ export default async function appointmentRoutes(server: FastifyInstance) {
         updateData[key as keyof typeof updateData] === undefined && delete updateData[key as keyof typeof updateData]
       );
 
-      const appointment = await server.prisma.appointment.update({
-        where: { id },
-        data: updateData
+      // Keep the replaced version in history and bump versionId
+      const appointment = await server.prisma.$transaction(async tx => {
+        await saveResourceVersion(tx, transformAppointmentFromDB(existingAppointment), existingAppointment.organizationId, request.user.id);
+        return tx.appointment.update({
+          where: { id },
+          data: { ...updateData, ...NEXT_VERSION }
+        });
       });
 
-      reply.send(transformAppointmentFromDB(appointment));
+      const resource = transformAppointmentFromDB(appointment);
+      reply.headers(versionHeaders(resource)).send(resource);
 
     } catch (error) {
+      if (isVersionConflict(error)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Appointment was modified by another request'));
+      }
       server.log.error('Update appointment error:', error);
       reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
     }
   });
 
+  // PATCH /fhir/Appointment/:id - Apply a JSON Patch document to an appointment
+  server.patch<{ Params: { id: string }, Body: JsonPatchOperation[] }>(
+    '/Appointment/:id',
+    {
+      preValidation: rejectFhirPathPatch,
+      schema: {
+        tags: ["Appointments"],
+        description: "Patch appointment with a JSON Patch document (FHIR). FHIRPath Patch is not supported (415).",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: jsonPatchSchema
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: JsonPatchOperation[] }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const existingAppointment = await findAccessibleAppointment(id, organizationIds);
+
+      if (!existingAppointment) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Appointment not found'));
+      }
+
+      if (!matchesIfMatch(request.headers['if-match'], existingAppointment.versionId)) {
+        return reply.code(412).send(createOperationOutcome('error', 'conflict', `Appointment has been modified; current version is ${existingAppointment.versionId}`));
+      }
+
+      const current = transformAppointmentFromDB(existingAppointment);
+      const patched = applyJsonPatch(current, request.body);
+      const error = patched.error ?? validatePatchedResource(request, appointmentPatchSchema, current, patched.result);
+
+      if (error) {
+        return reply.code(422).send(createOperationOutcome('error', 'processing', error));
+      }
+
+      const issues = validateResource(patched.result);
+      if (issues.length > 0) {
+        return reply.code(422).send(createValidationOutcome(issues));
+      }
+
+      // Participants are not patchable: the appointment keeps its patient and practitioner
+      const appointmentData = clearRemovedFields(transformAppointmentToDB(
+        patched.result as FHIRAppointment,
+        existingAppointment.patientId,
+        existingAppointment.practitionerId,
+        existingAppointment.organizationId
+      ), ['appointmentType']);
+
+      const appointment = await server.prisma.$transaction(async tx => {
+        await saveResourceVersion(tx, current, existingAppointment.organizationId, request.user.id);
+        return tx.appointment.update({
+          where: { id },
+          data: { ...appointmentData, ...NEXT_VERSION }
+        });
+      });
+
+      const resource = transformAppointmentFromDB(appointment);
+      reply.headers(versionHeaders(resource)).send(resource);
+
+    } catch (error) {
+      if (isVersionConflict(error)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Appointment was modified by another request'));
+      }
+      server.log.error('Patch appointment error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
   // DELETE /fhir/Appointment/:id - Cancel appointment
   server.delete<{ Params: { id: string } }>(
     '/Appointment/:id',
@@ -321,14 +622,21 @@ export default async function appointmentRoutes(server: FastifyInstance) {
         return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Appointment not found'));
       }
 
-      await server.prisma.appointment.update({
-        where: { id },
-        data: { status: 'cancelled' }
+      // Cancelling is an update, so the booked version is kept in history
+      await server.prisma.$transaction(async tx => {
+        await saveResourceVersion(tx, transformAppointmentFromDB(appointment), appointment.organizationId, request.user.id);
+        await tx.appointment.update({
+          where: { id },
+          data: { status: 'cancelled', ...NEXT_VERSION }
+        });
       });
 
       reply.code(204).send();
 
     } catch (error) {
+      if (isVersionConflict(error)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Appointment was modified by another request'));
+      }
       server.log.error('Cancel appointment error:', error);
       reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
     }
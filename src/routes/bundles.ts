@@ -0,0 +1,177 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { config } from '../config/environment.js';
+import { createOperationOutcome, createBundle } from '../utils/fhir.js';
+import {
+  MAX_BUNDLE_ENTRIES,
+  BUNDLE_TRANSACTION_TIMEOUT_MS,
+  runInBundleTransaction,
+  runAsBundleEntry,
+  getTransactionOrder,
+  resolveBundleReferences,
+  resolveBundleUrl,
+  createBundleResponseEntry,
+  decodePatchBinary
+} from '../utils/bundle.js';
+import { JsonPatchOperation } from '../utils/patch.js';
+import { FHIRBundle, FHIRBundleEntry, FHIRResource } from '../types/fhir.js';
+
+export default async function bundleRoutes(server: FastifyInstance) {
+
+  // Replay one Bundle entry as a request against the FHIR API, as the Bundle's sender
+  async function processEntry(
+    request: FastifyRequest,
+    entry: FHIRBundleEntry,
+    created: Map<string, { resourceType: string; id: string }>
+  ): Promise<FHIRBundleEntry> {
+    const { method, url, ifMatch, ifNoneExist } = entry.request!;
+    const path = resolveBundleUrl(url, created).replace(/^\/+/, '');
+
+    if (!path) {
+      return createBundleResponseEntry(400, createOperationOutcome('error', 'invalid', 'Bundle entry request.url is required'), {});
+    }
+
+    // PATCH entries carry their JSON Patch document as a base64 Binary resource
+    let body: FHIRResource | JsonPatchOperation[] | null | undefined = entry.resource;
+    if (method === 'PATCH' && entry.resource?.resourceType === 'Binary') {
+      body = decodePatchBinary(entry.resource);
+      if (!body) {
+        return createBundleResponseEntry(400, createOperationOutcome('error', 'invalid', 'PATCH entry Binary must contain a base64 encoded JSON Patch document'), {});
+      }
+    }
+
+    const response = await runAsBundleEntry(() => server.inject({
+      method,
+      url: `${config.api.fhirPath}/${path}`,
+      headers: {
+        ...(request.headers.authorization && { authorization: request.headers.authorization }),
+        ...(request.headers['x-organization-id'] && { 'x-organization-id': request.headers['x-organization-id'] }),
+        ...(ifMatch && { 'if-match': ifMatch }),
+        ...(ifNoneExist && { 'if-none-exist': ifNoneExist })
+      },
+      ...(body && (method === 'POST' || method === 'PUT' || method === 'PATCH') && {
+        payload: resolveBundleReferences(body, created)
+      })
+    }));
+
+    let result: FHIRResource | undefined;
+    try {
+      result = response.body ? response.json<FHIRResource>() : undefined;
+    } catch {
+      result = undefined;
+    }
+
+    // A conditional create that matched an existing resource answers 200 with that
+    // resource, which later entries refer to by the same fullUrl
+    const isCreate = response.statusCode === 201 || (response.statusCode === 200 && method === 'POST' && !!ifNoneExist);
+    if (isCreate && entry.fullUrl && result?.id) {
+      created.set(entry.fullUrl, { resourceType: result.resourceType, id: result.id });
+    }
+
+    return createBundleResponseEntry(response.statusCode, result, response.headers);
+  }
+
+  // POST /fhir - Process a batch or transaction Bundle
+  server.post<{ Body: FHIRBundle }>(
+    '/',
+    {
+      schema: {
+        tags: ["Bundles"],
+        description: "Process a batch or transaction Bundle (FHIR). Entries may use any FHIR interaction (create, conditional create, read, search, update, patch, delete, operations). Transaction entries succeed or fail together.",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["resourceType", "type"],
+          properties: {
+            resourceType: { type: "string", enum: ["Bundle"] },
+            type: { type: "string", enum: ["batch", "transaction"] },
+            entry: {
+              type: "array",
+              maxItems: MAX_BUNDLE_ENTRIES,
+              items: {
+                type: "object",
+                required: ["request"],
+                properties: {
+                  fullUrl: { type: "string" },
+                  resource: { type: "object", additionalProperties: true },
+                  request: {
+                    type: "object",
+                    required: ["method", "url"],
+                    properties: {
+                      method: { type: "string", enum: ["GET", "POST", "PUT", "PATCH", "DELETE"] },
+                      url: { type: "string", minLength: 1 },
+                      ifMatch: { type: "string" },
+                      ifNoneExist: { type: "string" }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: FHIRBundle }>, reply: FastifyReply) => {
+    try {
+      const entries = request.body.entry || [];
+      const created = new Map<string, { resourceType: string; id: string }>();
+      const results: FHIRBundleEntry[] = new Array(entries.length);
+
+      if (request.body.type === 'batch') {
+        // Batch entries are independent: each one succeeds or fails on its own
+        for (const [index, entry] of entries.entries()) {
+          results[index] = await processEntry(request, entry, created);
+        }
+
+        const bundle = createBundle('batch-response', results);
+        delete bundle.total;
+        return reply.send(bundle);
+      }
+
+      const fullUrls = entries.map(entry => entry.fullUrl).filter(Boolean);
+      if (new Set(fullUrls).size !== fullUrls.length) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Bundle entries must have unique fullUrl values'));
+      }
+
+      // The first failing entry rolls the whole transaction back
+      let failure: { index: number; entry: FHIRBundleEntry; status: number } | undefined;
+
+      try {
+        await server.prisma.$transaction(
+          async (tx: Prisma.TransactionClient) => runInBundleTransaction(tx, async () => {
+            for (const index of getTransactionOrder(entries)) {
+              results[index] = await processEntry(request, entries[index], created);
+
+              const status = parseInt(results[index].response!.status, 10);
+              if (status >= 400) {
+                failure = { index, entry: results[index], status };
+                throw new Error(`Bundle entry ${index} failed with status ${status}`);
+              }
+            }
+          }),
+          { timeout: BUNDLE_TRANSACTION_TIMEOUT_MS }
+        );
+      } catch (error) {
+        if (!failure) {
+          throw error;
+        }
+
+        const outcome = failure.entry.response!.outcome;
+        const diagnostics = outcome?.issue?.[0]?.diagnostics || failure.entry.response!.status;
+        return reply.code(failure.status).send(createOperationOutcome(
+          'error',
+          outcome?.issue?.[0]?.code || 'processing',
+          `Transaction failed at entry ${failure.index} (${entries[failure.index].request!.method} ${entries[failure.index].request!.url}): ${diagnostics}`
+        ));
+      }
+
+      const bundle = createBundle('transaction-response', results);
+      delete bundle.total;
+      reply.send(bundle);
+
+    } catch (error) {
+      server.log.error('Bundle processing error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
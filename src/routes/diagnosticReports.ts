@@ -0,0 +1,446 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { createOperationOutcome, transformDiagnosticReportFromDB, transformDiagnosticReportToDB, transformObservationFromDB, parseTokenParam, parseDateSearchParams, createSearchBundle, getSearchPaging, getSearchOrderBy, searchResultParamsSchema, SearchResultParams, toJsonInput } from '../utils/fhir.js';
+import { FHIRBundleEntry, FHIRDiagnosticReport, FHIRReference } from '../types/fhir.js';
+
+type DiagnosticReportSearchQuery = { patient?: string, status?: string, category?: string, code?: string, date?: string[], _include?: string } & SearchResultParams;
+type DiagnosticReportCreateBody = FHIRDiagnosticReport & { patientId: string };
+
+// Allowed report status transitions (registered → preliminary → final → amended)
+const statusTransitions: Record<string, string[]> = {
+  registered: ["partial", "preliminary", "final", "cancelled"],
+  partial: ["preliminary", "final", "cancelled"],
+  preliminary: ["final", "cancelled"],
+  final: ["amended"],
+  amended: ["amended"],
+  cancelled: []
+};
+
+// _sort parameters supported by DiagnosticReport search and the fields they order by
+const DIAGNOSTIC_REPORT_SORT_FIELDS: Record<string, string> = {
+  date: 'effectiveDateTime',
+  issued: 'issued',
+  status: 'status',
+  _lastUpdated: 'updatedAt'
+};
+
+export default async function diagnosticReportRoutes(server: FastifyInstance) {
+
+  // Extract observation IDs from a report's result references
+  function getObservationIds(result: FHIRReference[] | null | undefined): string[] {
+    return (result || [])
+      .map(reference => reference.reference?.replace(/^Observation\//, ''))
+      .filter((id): id is string => !!id);
+  }
+
+  // Every result must reference an Observation for the same patient in an accessible organization
+  async function validateResultReferences(result: FHIRReference[] | undefined, patientId: string, organizationIds: string[]): Promise<string | null> {
+    if (!result || result.length === 0) {
+      return null;
+    }
+
+    const invalidReference = result.find(reference => !reference.reference?.startsWith('Observation/'));
+    if (invalidReference) {
+      return `Invalid result reference: ${invalidReference.reference}. Only Observation references are allowed`;
+    }
+
+    const observationIds = getObservationIds(result);
+    const observations = await server.prisma.observation.findMany({
+      where: {
+        id: { in: observationIds },
+        patientId,
+        organizationId: { in: organizationIds }
+      },
+      select: { id: true }
+    });
+
+    const foundIds = new Set(observations.map(observation => observation.id));
+    const missingId = observationIds.find(id => !foundIds.has(id));
+    if (missingId) {
+      return `Observation/${missingId} not found or no access`;
+    }
+
+    return null;
+  }
+
+  // GET /fhir/DiagnosticReport - Search diagnostic reports
+  server.get<{ Querystring: DiagnosticReportSearchQuery }>(
+    '/DiagnosticReport',
+    {
+      schema: {
+        tags: ["Diagnostic Reports"],
+        description: "Search diagnostic reports (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            patient: { type: "string" },
+            status: { type: "string" },
+            category: { type: "string" },
+            code: { type: "string" },
+            date: { type: "array", items: { type: "string" } },
+            _include: { type: "string", enum: ["DiagnosticReport:result"] },
+            ...searchResultParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: DiagnosticReportSearchQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const query = request.query;
+
+      let where: any = {
+        organizationId: { in: organizationIds }
+      };
+
+      // Patient filtering
+      if (query.patient) {
+        where.patientId = query.patient;
+      }
+
+      // Status filtering
+      if (query.status) {
+        where.status = query.status;
+      }
+
+      // Category filtering (e.g. LAB, RAD)
+      if (query.category) {
+        where.category = {
+          array_contains: [{ coding: [parseTokenParam(query.category)] }]
+        };
+      }
+
+      // Code filtering (system|code or code)
+      if (query.code) {
+        where.code = {
+          path: ['coding'],
+          array_contains: [parseTokenParam(query.code)]
+        };
+      }
+
+      // Effective date range filtering
+      if (query.date) {
+        const dateFilter = parseDateSearchParams(query.date);
+        if (!dateFilter) {
+          return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Invalid date search parameter'));
+        }
+        where.effectiveDateTime = dateFilter;
+      }
+
+      const paging = getSearchPaging(query);
+      const orderBy = getSearchOrderBy(query, DIAGNOSTIC_REPORT_SORT_FIELDS, { issued: 'desc' });
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${query._sort}`));
+      }
+
+      const [diagnosticReports, total] = await Promise.all([
+        server.prisma.diagnosticReport.findMany({
+          where,
+          orderBy,
+          ...paging
+        }),
+        server.prisma.diagnosticReport.count({ where })
+      ]);
+
+      const entries: FHIRBundleEntry[] = diagnosticReports.map(diagnosticReport => ({
+        fullUrl: `${request.protocol}://${request.hostname}/fhir/DiagnosticReport/${diagnosticReport.id}`,
+        resource: transformDiagnosticReportFromDB(diagnosticReport),
+        search: { mode: 'match' }
+      }));
+
+      // Add referenced result Observations when requested
+      if (query._include === 'DiagnosticReport:result') {
+        const observationIds = [...new Set(diagnosticReports.flatMap(diagnosticReport =>
+          getObservationIds(diagnosticReport.result as FHIRReference[])
+        ))];
+
+        const observations = await server.prisma.observation.findMany({
+          where: {
+            id: { in: observationIds },
+            organizationId: { in: organizationIds }
+          }
+        });
+
+        entries.push(...observations.map(observation => ({
+          fullUrl: `${request.protocol}://${request.hostname}/fhir/Observation/${observation.id}`,
+          resource: transformObservationFromDB(observation),
+          search: { mode: 'include' }
+        })));
+      }
+
+      const bundle = createSearchBundle(request, entries, total, paging);
+      reply.send(bundle);
+
+    } catch (error) {
+      server.log.error('Search diagnostic reports error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/DiagnosticReport/:id - Get diagnostic report by ID
+  server.get<{ Params: { id: string } }>(
+    '/DiagnosticReport/:id',
+    {
+      schema: {
+        tags: ["Diagnostic Reports"],
+        description: "Get diagnostic report by ID (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const diagnosticReport = await server.prisma.diagnosticReport.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!diagnosticReport) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Diagnostic report not found'));
+      }
+
+      reply.send(transformDiagnosticReportFromDB(diagnosticReport));
+
+    } catch (error) {
+      server.log.error('Get diagnostic report error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /fhir/DiagnosticReport - Create diagnostic report
+  server.post<{ Body: DiagnosticReportCreateBody }>(
+    '/DiagnosticReport',
+    {
+      schema: {
+        tags: ["Diagnostic Reports"],
+        description: "Create diagnostic report (FHIR)",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["resourceType", "status", "code", "patientId"],
+          properties: {
+            resourceType: { type: "string", enum: ["DiagnosticReport"] },
+            status: { type: "string", enum: ["registered", "partial", "preliminary", "final"] },
+            category: { type: "array" },
+            code: { type: "object" },
+            patientId: { type: "string" },
+            effectiveDateTime: { type: "string" },
+            issued: { type: "string" },
+            result: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["reference"],
+                properties: {
+                  reference: { type: "string" }
+                }
+              }
+            },
+            conclusion: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: DiagnosticReportCreateBody }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId, organizationIds } = request.user;
+      const { patientId, ...diagnosticReportData } = request.body;
+
+      // Validate patient access
+      const patient = await server.prisma.patient.findFirst({
+        where: {
+          id: patientId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!patient) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found or no access'));
+      }
+
+      const resultError = await validateResultReferences(diagnosticReportData.result, patientId, organizationIds);
+      if (resultError) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', resultError));
+      }
+
+      const dbDiagnosticReportData = transformDiagnosticReportToDB(diagnosticReportData, patientId, currentOrganizationId!);
+
+      const diagnosticReport = await server.prisma.diagnosticReport.create({
+        data: dbDiagnosticReportData
+      });
+
+      reply.code(201).send(transformDiagnosticReportFromDB(diagnosticReport));
+
+    } catch (error) {
+      server.log.error('Create diagnostic report error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // PUT /fhir/DiagnosticReport/:id - Update diagnostic report
+  server.put<{ Params: { id: string }, Body: FHIRDiagnosticReport }>(
+    '/DiagnosticReport/:id',
+    {
+      schema: {
+        tags: ["Diagnostic Reports"],
+        description: "Update diagnostic report (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          required: ["resourceType", "status"],
+          properties: {
+            resourceType: { type: "string", enum: ["DiagnosticReport"] },
+            status: { type: "string", enum: Object.keys(statusTransitions) },
+            category: { type: "array" },
+            code: { type: "object" },
+            effectiveDateTime: { type: "string" },
+            issued: { type: "string" },
+            result: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["reference"],
+                properties: {
+                  reference: { type: "string" }
+                }
+              }
+            },
+            conclusion: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: FHIRDiagnosticReport }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      // Check if diagnostic report exists and user has access
+      const existingDiagnosticReport = await server.prisma.diagnosticReport.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!existingDiagnosticReport) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Diagnostic report not found'));
+      }
+
+      const currentStatus = existingDiagnosticReport.status;
+      const nextStatus = request.body.status;
+
+      // Final reports may only change by being amended
+      if (currentStatus === 'final' && nextStatus !== 'amended') {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Final reports can only be changed by amending them'));
+      }
+
+      if (nextStatus !== currentStatus && !statusTransitions[currentStatus]?.includes(nextStatus)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Invalid status transition from ${currentStatus} to ${nextStatus}`));
+      }
+
+      const resultError = await validateResultReferences(request.body.result, existingDiagnosticReport.patientId, organizationIds);
+      if (resultError) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', resultError));
+      }
+
+      const updateData: Prisma.DiagnosticReportUpdateInput = {
+        status: nextStatus,
+        category: toJsonInput(request.body.category),
+        code: toJsonInput(request.body.code),
+        effectiveDateTime: request.body.effectiveDateTime ? new Date(request.body.effectiveDateTime) : undefined,
+        // Amending a report reissues it
+        issued: nextStatus === 'amended' ? new Date() : (request.body.issued ? new Date(request.body.issued) : undefined),
+        result: request.body.result?.map(reference => ({ reference: reference.reference })),
+        conclusion: request.body.conclusion
+      };
+
+      // Remove undefined values
+      Object.keys(updateData).forEach(key =>
+        updateData[key as keyof typeof updateData] === undefined && delete updateData[key as keyof typeof updateData]
+      );
+
+      const diagnosticReport = await server.prisma.diagnosticReport.update({
+        where: { id },
+        data: updateData
+      });
+
+      reply.send(transformDiagnosticReportFromDB(diagnosticReport));
+
+    } catch (error) {
+      server.log.error('Update diagnostic report error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // DELETE /fhir/DiagnosticReport/:id - Cancel diagnostic report
+  server.delete<{ Params: { id: string } }>(
+    '/DiagnosticReport/:id',
+    {
+      schema: {
+        tags: ["Diagnostic Reports"],
+        description: "Cancel diagnostic report (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const diagnosticReport = await server.prisma.diagnosticReport.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!diagnosticReport) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Diagnostic report not found'));
+      }
+
+      if (!statusTransitions[diagnosticReport.status]?.includes('cancelled')) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Diagnostic report is ${diagnosticReport.status} and cannot be cancelled`));
+      }
+
+      await server.prisma.diagnosticReport.update({
+        where: { id },
+        data: { status: 'cancelled' }
+      });
+
+      reply.code(204).send();
+
+    } catch (error) {
+      server.log.error('Cancel diagnostic report error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
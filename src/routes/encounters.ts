@@ -0,0 +1,318 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { createOperationOutcome, parseDateSearchParams, transformEncounterFromDB, transformEncounterToDB, createSearchBundle, getSearchPaging, searchResultParamsSchema, SearchResultParams, toJsonInput } from '../utils/fhir.js';
+import { fhirDateBound, getSqlOrderBy, orderByIds, periodOverlapCondition, searchIds } from '../utils/search.js';
+import { FHIREncounter } from '../types/fhir.js';
+
+type EncounterSearchQuery = { patient?: string, practitioner?: string, appointment?: string, status?: string, class?: string, date?: string | string[] } & SearchResultParams;
+type EncounterCreateBody = FHIREncounter & { patientId: string, practitionerId: string, appointmentId?: string };
+
+// _sort parameters supported by Encounter search
+const ENCOUNTER_SORT_COLUMNS = {
+  date: fhirDateBound(Prisma.sql`r.period->>'start'`, 'start'),
+  status: Prisma.sql`r.status`,
+  _lastUpdated: Prisma.sql`r."updatedAt"`
+};
+
+export default async function encounterRoutes(server: FastifyInstance) {
+
+  // GET /fhir/Encounter - Search encounters
+  server.get<{ Querystring: EncounterSearchQuery }>(
+    '/Encounter',
+    {
+      schema: {
+        tags: ["Encounters"],
+        description: "Search encounters (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            patient: { type: "string" },
+            practitioner: { type: "string" },
+            appointment: { type: "string" },
+            status: { type: "string" },
+            class: { type: "string" },
+            date: { type: "array", items: { type: "string" } },
+            ...searchResultParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: EncounterSearchQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const query = request.query;
+      const paging = getSearchPaging(query);
+      const orderBy = getSqlOrderBy(query, ENCOUNTER_SORT_COLUMNS, Prisma.sql`r."createdAt" DESC, r.id`);
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${query._sort}`));
+      }
+
+      if (organizationIds.length === 0) {
+        return reply.send(createSearchBundle(request, [], 0, paging));
+      }
+
+      const conditions: Prisma.Sql[] = [
+        Prisma.sql`r."organizationId" IN (${Prisma.join(organizationIds)})`
+      ];
+
+      // Patient filtering
+      if (query.patient) {
+        conditions.push(Prisma.sql`r."patientId" = ${query.patient}`);
+      }
+
+      // Practitioner filtering
+      if (query.practitioner) {
+        conditions.push(Prisma.sql`r."practitionerId" = ${query.practitioner}`);
+      }
+
+      // Appointment filtering
+      if (query.appointment) {
+        conditions.push(Prisma.sql`r."appointmentId" = ${query.appointment}`);
+      }
+
+      // Status filtering
+      if (query.status) {
+        conditions.push(Prisma.sql`r.status = ${query.status}`);
+      }
+
+      // Class filtering (matches Coding.code)
+      if (query.class) {
+        conditions.push(Prisma.sql`r.class->>'code' = ${query.class}`);
+      }
+
+      // Date filtering (the encounter period overlaps the range)
+      if (query.date) {
+        const dateFilter = parseDateSearchParams(query.date);
+        if (!dateFilter) {
+          return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Invalid date search parameter'));
+        }
+        conditions.push(periodOverlapCondition(Prisma.sql`r.period`, dateFilter));
+      }
+
+      const { ids, total } = await searchIds(server.prisma, 'encounters', conditions, orderBy, paging);
+
+      const encounters = await server.prisma.encounter.findMany({
+        where: { id: { in: ids } }
+      });
+
+      const entries = orderByIds(encounters, ids).map(encounter => ({
+        fullUrl: `${request.protocol}://${request.hostname}/fhir/Encounter/${encounter.id}`,
+        resource: transformEncounterFromDB(encounter)
+      }));
+
+      const bundle = createSearchBundle(request, entries, total, paging);
+      reply.send(bundle);
+
+    } catch (error) {
+      server.log.error('Search encounters error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Encounter/:id - Get encounter by ID
+  server.get<{ Params: { id: string } }>(
+    '/Encounter/:id',
+    {
+      schema: {
+        tags: ["Encounters"],
+        description: "Get encounter by ID (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const encounter = await server.prisma.encounter.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!encounter) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Encounter not found'));
+      }
+
+      reply.send(transformEncounterFromDB(encounter));
+
+    } catch (error) {
+      server.log.error('Get encounter error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /fhir/Encounter - Create encounter
+  server.post<{ Body: EncounterCreateBody }>(
+    '/Encounter',
+    {
+      schema: {
+        tags: ["Encounters"],
+        description: "Create encounter (FHIR)",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["resourceType", "status", "class", "patientId", "practitionerId"],
+          properties: {
+            resourceType: { type: "string", enum: ["Encounter"] },
+            status: { type: "string", enum: ["planned", "arrived", "in-progress", "finished", "cancelled"] },
+            class: { type: "object" },
+            type: { type: "array" },
+            reasonCode: { type: "array" },
+            period: { type: "object" },
+            diagnosis: { type: "array" },
+            patientId: { type: "string" },
+            practitionerId: { type: "string" },
+            appointmentId: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: EncounterCreateBody }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const { patientId, practitionerId, appointmentId, ...encounterData } = request.body;
+
+      // Validate patient and practitioner access
+      const patient = await server.prisma.patient.findFirst({
+        where: {
+          id: patientId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!patient) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found or no access'));
+      }
+
+      const practitioner = await server.prisma.practitioner.findFirst({
+        where: {
+          id: practitionerId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!practitioner) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Practitioner not found or no access'));
+      }
+
+      // The originating appointment must belong to the same patient and organization
+      if (appointmentId) {
+        const appointment = await server.prisma.appointment.findFirst({
+          where: {
+            id: appointmentId,
+            patientId,
+            organizationId: currentOrganizationId
+          }
+        });
+
+        if (!appointment) {
+          return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Appointment not found or no access'));
+        }
+      }
+
+      const dbEncounterData = transformEncounterToDB(encounterData, patientId, practitionerId, currentOrganizationId!, appointmentId);
+
+      const encounter = await server.prisma.encounter.create({
+        data: dbEncounterData
+      });
+
+      reply.code(201).send(transformEncounterFromDB(encounter));
+
+    } catch (error) {
+      server.log.error('Create encounter error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // PUT /fhir/Encounter/:id - Update encounter
+  server.put<{ Params: { id: string }, Body: FHIREncounter }>(
+    '/Encounter/:id',
+    {
+      schema: {
+        tags: ["Encounters"],
+        description: "Update encounter (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          required: ["resourceType", "status"],
+          properties: {
+            resourceType: { type: "string", enum: ["Encounter"] },
+            status: { type: "string", enum: ["planned", "arrived", "in-progress", "finished", "cancelled"] },
+            class: { type: "object" },
+            type: { type: "array" },
+            reasonCode: { type: "array" },
+            period: { type: "object" },
+            diagnosis: { type: "array" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: FHIREncounter }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      // Check if encounter exists and user has access
+      const existingEncounter = await server.prisma.encounter.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!existingEncounter) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Encounter not found'));
+      }
+
+      const updateData: Prisma.EncounterUpdateInput = {
+        status: request.body.status,
+        class: toJsonInput(request.body.class),
+        type: toJsonInput(request.body.type),
+        reasonCode: toJsonInput(request.body.reasonCode),
+        period: toJsonInput(request.body.period),
+        diagnosis: request.body.diagnosis
+      };
+
+      // Remove undefined values
+      Object.keys(updateData).forEach(key =>
+        updateData[key as keyof typeof updateData] === undefined && delete updateData[key as keyof typeof updateData]
+      );
+
+      const encounter = await server.prisma.encounter.update({
+        where: { id },
+        data: updateData
+      });
+
+      reply.send(transformEncounterFromDB(encounter));
+
+    } catch (error) {
+      server.log.error('Update encounter error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
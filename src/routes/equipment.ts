@@ -0,0 +1,477 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { createOperationOutcome } from '../utils/fhir.js';
+import { getMaintenanceDue, getWarrantyWarnings } from '../utils/equipment.js';
+import { EquipmentCreateRequest, EquipmentUpdateRequest, MaintenanceRecordRequest } from '../types/equipment.js';
+
+type EquipmentListQuery = { type?: string, status?: string, location?: string };
+type EquipmentReportQuery = { organization?: string, withinDays?: number };
+
+const DEFAULT_REPORT_WINDOW_DAYS = 30;
+
+const equipmentStatuses = ["active", "maintenance", "retired"];
+const maintenanceTypes = ["routine", "repair", "calibration"];
+
+const equipmentProperties = {
+  name: { type: "string", minLength: 1 },
+  type: { type: "string", minLength: 1 },
+  manufacturer: { type: "string" },
+  model: { type: "string" },
+  serialNumber: { type: "string" },
+  status: { type: "string", enum: equipmentStatuses },
+  location: { type: "string" },
+  purchaseDate: { type: "string", format: "date" },
+  warrantyExpiry: { type: "string", format: "date" },
+  nextMaintenance: { type: "string", format: "date" }
+};
+
+const equipmentReportQuerySchema = {
+  type: "object",
+  properties: {
+    organization: { type: "string" },
+    withinDays: { type: "integer", minimum: 0 }
+  }
+};
+
+// Convert the date fields of a create/update body to Date values
+function toEquipmentData<T extends EquipmentUpdateRequest>(body: T) {
+  const { purchaseDate, warrantyExpiry, nextMaintenance, ...equipmentData } = body;
+
+  return {
+    ...equipmentData,
+    purchaseDate: purchaseDate ? new Date(purchaseDate) : undefined,
+    warrantyExpiry: warrantyExpiry ? new Date(warrantyExpiry) : undefined,
+    nextMaintenance: nextMaintenance ? new Date(nextMaintenance) : undefined
+  };
+}
+
+export default async function equipmentRoutes(server: FastifyInstance) {
+
+  async function findAccessibleEquipment(id: string, organizationIds: string[]) {
+    return server.prisma.equipment.findFirst({
+      where: {
+        id,
+        organizationId: { in: organizationIds }
+      }
+    });
+  }
+
+  // Resolve the organizations a report covers, or null if the requested one is not accessible
+  function resolveReportOrganizations(organizationIds: string[], organization?: string) {
+    if (!organization) {
+      return organizationIds;
+    }
+    return organizationIds.includes(organization) ? [organization] : null;
+  }
+
+  // GET /api/equipment - List equipment
+  server.get<{ Querystring: EquipmentListQuery }>(
+    '/',
+    {
+      schema: {
+        tags: ["Equipment"],
+        description: "List equipment",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            type: { type: "string" },
+            status: { type: "string" },
+            location: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: EquipmentListQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const query = request.query;
+
+      let where: any = {
+        organizationId: { in: organizationIds }
+      };
+
+      if (query.type) {
+        where.type = query.type;
+      }
+
+      if (query.status) {
+        where.status = query.status;
+      }
+
+      if (query.location) {
+        where.location = { contains: query.location, mode: 'insensitive' };
+      }
+
+      const equipment = await server.prisma.equipment.findMany({
+        where,
+        orderBy: { name: 'asc' }
+      });
+
+      reply.send({ equipment, total: equipment.length });
+
+    } catch (error) {
+      server.log.error('List equipment error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/equipment/maintenance-due - Due and overdue preventive maintenance per organization
+  server.get<{ Querystring: EquipmentReportQuery }>(
+    '/maintenance-due',
+    {
+      schema: {
+        tags: ["Equipment"],
+        description: "List equipment with maintenance due or overdue",
+        security: [{ bearerAuth: [] }],
+        querystring: equipmentReportQuerySchema
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: EquipmentReportQuery }>, reply: FastifyReply) => {
+    try {
+      const { organization, withinDays = DEFAULT_REPORT_WINDOW_DAYS } = request.query;
+
+      const organizationIds = resolveReportOrganizations(request.user.organizationIds, organization);
+      if (!organizationIds) {
+        return reply.code(403).send(createOperationOutcome('error', 'forbidden', 'Access denied to organization'));
+      }
+
+      const organizations = await getMaintenanceDue(server.prisma, organizationIds, withinDays);
+
+      reply.send({ withinDays, organizations });
+
+    } catch (error) {
+      server.log.error('Maintenance due report error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/equipment/warranty-expiring - Warranty expiry warnings per organization
+  server.get<{ Querystring: EquipmentReportQuery }>(
+    '/warranty-expiring',
+    {
+      schema: {
+        tags: ["Equipment"],
+        description: "List equipment with warranties expiring soon or expired",
+        security: [{ bearerAuth: [] }],
+        querystring: equipmentReportQuerySchema
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: EquipmentReportQuery }>, reply: FastifyReply) => {
+    try {
+      const { organization, withinDays = DEFAULT_REPORT_WINDOW_DAYS } = request.query;
+
+      const organizationIds = resolveReportOrganizations(request.user.organizationIds, organization);
+      if (!organizationIds) {
+        return reply.code(403).send(createOperationOutcome('error', 'forbidden', 'Access denied to organization'));
+      }
+
+      const organizations = await getWarrantyWarnings(server.prisma, organizationIds, withinDays);
+
+      reply.send({ withinDays, organizations });
+
+    } catch (error) {
+      server.log.error('Warranty expiry report error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/equipment/:id - Get equipment by ID
+  server.get<{ Params: { id: string } }>(
+    '/:id',
+    {
+      schema: {
+        tags: ["Equipment"],
+        description: "Get equipment by ID",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const equipment = await findAccessibleEquipment(request.params.id, request.user.organizationIds);
+
+      if (!equipment) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Equipment not found'));
+      }
+
+      reply.send(equipment);
+
+    } catch (error) {
+      server.log.error('Get equipment error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/equipment - Register equipment
+  server.post<{ Body: EquipmentCreateRequest }>(
+    '/',
+    {
+      schema: {
+        tags: ["Equipment"],
+        description: "Register equipment",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["name", "type"],
+          properties: equipmentProperties
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: EquipmentCreateRequest }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const body = request.body;
+
+      if (body.serialNumber) {
+        const existingEquipment = await server.prisma.equipment.findUnique({
+          where: { serialNumber: body.serialNumber }
+        });
+
+        if (existingEquipment) {
+          return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Equipment with this serial number already exists'));
+        }
+      }
+
+      const equipment = await server.prisma.equipment.create({
+        data: {
+          ...toEquipmentData(body),
+          organizationId: currentOrganizationId!
+        }
+      });
+
+      reply.code(201).send(equipment);
+
+    } catch (error) {
+      server.log.error('Create equipment error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // PUT /api/equipment/:id - Update equipment
+  server.put<{ Params: { id: string }, Body: EquipmentUpdateRequest }>(
+    '/:id',
+    {
+      schema: {
+        tags: ["Equipment"],
+        description: "Update equipment",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          properties: equipmentProperties
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: EquipmentUpdateRequest }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const body = request.body;
+
+      const existingEquipment = await findAccessibleEquipment(id, request.user.organizationIds);
+
+      if (!existingEquipment) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Equipment not found'));
+      }
+
+      if (body.serialNumber && body.serialNumber !== existingEquipment.serialNumber) {
+        const serialConflict = await server.prisma.equipment.findUnique({
+          where: { serialNumber: body.serialNumber }
+        });
+
+        if (serialConflict) {
+          return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Equipment with this serial number already exists'));
+        }
+      }
+
+      const updateData: any = toEquipmentData(body);
+
+      // Remove undefined values
+      Object.keys(updateData).forEach(key => updateData[key] === undefined && delete updateData[key]);
+
+      const equipment = await server.prisma.equipment.update({
+        where: { id },
+        data: updateData
+      });
+
+      reply.send(equipment);
+
+    } catch (error) {
+      server.log.error('Update equipment error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // DELETE /api/equipment/:id - Retire equipment
+  server.delete<{ Params: { id: string } }>(
+    '/:id',
+    {
+      schema: {
+        tags: ["Equipment"],
+        description: "Retire equipment",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      const equipment = await findAccessibleEquipment(id, request.user.organizationIds);
+
+      if (!equipment) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Equipment not found'));
+      }
+
+      await server.prisma.equipment.update({
+        where: { id },
+        data: { status: 'retired' }
+      });
+
+      reply.code(204).send();
+
+    } catch (error) {
+      server.log.error('Retire equipment error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/equipment/:id/maintenance - Maintenance history for equipment
+  server.get<{ Params: { id: string } }>(
+    '/:id/maintenance',
+    {
+      schema: {
+        tags: ["Equipment"],
+        description: "List maintenance records for equipment",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      const equipment = await findAccessibleEquipment(id, request.user.organizationIds);
+
+      if (!equipment) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Equipment not found'));
+      }
+
+      const records = await server.prisma.maintenanceRecord.findMany({
+        where: { equipmentId: id },
+        orderBy: { date: 'desc' }
+      });
+
+      reply.send({ records, total: records.length });
+
+    } catch (error) {
+      server.log.error('List maintenance records error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/equipment/:id/maintenance - Log maintenance and roll the schedule forward
+  server.post<{ Params: { id: string }, Body: MaintenanceRecordRequest }>(
+    '/:id/maintenance',
+    {
+      schema: {
+        tags: ["Equipment"],
+        description: "Log maintenance performed on equipment",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          required: ["type", "description"],
+          properties: {
+            type: { type: "string", enum: maintenanceTypes },
+            description: { type: "string", minLength: 1 },
+            cost: { type: "number", minimum: 0 },
+            performedBy: { type: "string" },
+            date: { type: "string" },
+            nextDue: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: MaintenanceRecordRequest }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const body = request.body;
+
+      const equipment = await findAccessibleEquipment(id, request.user.organizationIds);
+
+      if (!equipment) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Equipment not found'));
+      }
+
+      if (equipment.status === 'retired') {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Cannot log maintenance for retired equipment'));
+      }
+
+      const date = body.date ? new Date(body.date) : new Date();
+      const nextDue = body.nextDue ? new Date(body.nextDue) : undefined;
+
+      if (isNaN(date.getTime()) || (nextDue && isNaN(nextDue.getTime()))) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Invalid maintenance date'));
+      }
+
+      if (nextDue && nextDue <= date) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', 'nextDue must be after the maintenance date'));
+      }
+
+      // Backdated records must not move lastMaintenance or the schedule backwards
+      const isLatest = !equipment.lastMaintenance || date >= equipment.lastMaintenance;
+
+      const [record] = await server.prisma.$transaction([
+        server.prisma.maintenanceRecord.create({
+          data: {
+            equipmentId: id,
+            type: body.type,
+            description: body.description,
+            cost: body.cost,
+            performedBy: body.performedBy || request.user.id,
+            date,
+            nextDue
+          }
+        }),
+        server.prisma.equipment.update({
+          where: { id },
+          data: isLatest ? {
+            lastMaintenance: date,
+            ...(nextDue && { nextMaintenance: nextDue })
+          } : {}
+        })
+      ]);
+
+      reply.code(201).send(record);
+
+    } catch (error) {
+      server.log.error('Log maintenance error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
@@ -0,0 +1,449 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { createOperationOutcome } from '../utils/fhir.js';
+import { applyInventoryTransaction, getInventoryAlerts, validateInventoryTransaction } from '../utils/inventory.js';
+import { config } from '../config/environment.js';
+import { InventoryItemCreateRequest, InventoryItemUpdateRequest, InventoryTransactionRequest } from '../types/inventory.js';
+
+type InventoryItemListQuery = { category?: string, name?: string, sku?: string };
+type InventoryAlertQuery = { organization?: string, expiryWindowDays?: number };
+type InventoryTransactionListQuery = { item?: string, type?: string, reference?: string };
+
+const inventoryCategories = ["medication", "supply", "equipment"];
+const inventoryTransactionTypes = ["in", "out", "adjustment"];
+
+const inventoryItemProperties = {
+  name: { type: "string", minLength: 1 },
+  category: { type: "string", enum: inventoryCategories },
+  sku: { type: "string" },
+  description: { type: "string" },
+  unitOfMeasure: { type: "string", minLength: 1 },
+  minimumStock: { type: "integer", minimum: 0 },
+  maximumStock: { type: "integer", minimum: 0 },
+  unitCost: { type: "number", minimum: 0 },
+  supplier: { type: "string" },
+  expirationDate: { type: "string", format: "date" }
+};
+
+const inventoryTransactionBodySchema = {
+  type: "object",
+  required: ["type", "quantity"],
+  properties: {
+    type: { type: "string", enum: inventoryTransactionTypes },
+    quantity: { type: "integer" },
+    reason: { type: "string" },
+    reference: { type: "string" },
+    date: { type: "string" },
+    notes: { type: "string" }
+  }
+};
+
+export default async function inventoryRoutes(server: FastifyInstance) {
+
+  async function findAccessibleItem(id: string, organizationIds: string[]) {
+    return server.prisma.inventoryItem.findFirst({
+      where: {
+        id,
+        organizationId: { in: organizationIds }
+      }
+    });
+  }
+
+  // GET /api/inventory - List inventory items
+  server.get<{ Querystring: InventoryItemListQuery }>(
+    '/',
+    {
+      schema: {
+        tags: ["Inventory"],
+        description: "List inventory items",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            category: { type: "string" },
+            name: { type: "string" },
+            sku: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: InventoryItemListQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const query = request.query;
+
+      let where: any = {
+        organizationId: { in: organizationIds }
+      };
+
+      if (query.category) {
+        where.category = query.category;
+      }
+
+      if (query.name) {
+        where.name = { contains: query.name, mode: 'insensitive' };
+      }
+
+      if (query.sku) {
+        where.sku = query.sku;
+      }
+
+      const items = await server.prisma.inventoryItem.findMany({
+        where,
+        orderBy: { name: 'asc' }
+      });
+
+      reply.send({ items, total: items.length });
+
+    } catch (error) {
+      server.log.error('List inventory items error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/inventory/transactions - Stock ledger across the user's organizations
+  server.get<{ Querystring: InventoryTransactionListQuery }>(
+    '/transactions',
+    {
+      schema: {
+        tags: ["Inventory"],
+        description: "List inventory transactions",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            item: { type: "string" },
+            type: { type: "string" },
+            reference: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: InventoryTransactionListQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const query = request.query;
+
+      let where: any = {
+        item: { organizationId: { in: organizationIds } }
+      };
+
+      if (query.item) {
+        where.itemId = query.item;
+      }
+
+      if (query.type) {
+        where.type = query.type;
+      }
+
+      if (query.reference) {
+        where.reference = query.reference;
+      }
+
+      const transactions = await server.prisma.inventoryTransaction.findMany({
+        where,
+        orderBy: { date: 'desc' }
+      });
+
+      reply.send({ transactions, total: transactions.length });
+
+    } catch (error) {
+      server.log.error('List inventory transactions error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/inventory/alerts - Low-stock and expiring items per organization
+  server.get<{ Querystring: InventoryAlertQuery }>(
+    '/alerts',
+    {
+      schema: {
+        tags: ["Inventory"],
+        description: "List low-stock and expiring inventory items per organization",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            organization: { type: "string" },
+            expiryWindowDays: { type: "integer", minimum: 0 }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: InventoryAlertQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const { organization, expiryWindowDays = config.inventory.expiryWindowDays } = request.query;
+
+      if (organization && !organizationIds.includes(organization)) {
+        return reply.code(403).send(createOperationOutcome('error', 'forbidden', 'Access denied to organization'));
+      }
+
+      const alerts = await getInventoryAlerts(
+        server.prisma,
+        organization ? [organization] : organizationIds,
+        expiryWindowDays
+      );
+
+      reply.send({ expiryWindowDays, organizations: alerts });
+
+    } catch (error) {
+      server.log.error('Inventory alerts error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/inventory/:id - Get inventory item by ID
+  server.get<{ Params: { id: string } }>(
+    '/:id',
+    {
+      schema: {
+        tags: ["Inventory"],
+        description: "Get inventory item by ID",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const item = await findAccessibleItem(request.params.id, request.user.organizationIds);
+
+      if (!item) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Inventory item not found'));
+      }
+
+      reply.send(item);
+
+    } catch (error) {
+      server.log.error('Get inventory item error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/inventory - Create inventory item, recording any opening stock in the ledger
+  server.post<{ Body: InventoryItemCreateRequest }>(
+    '/',
+    {
+      schema: {
+        tags: ["Inventory"],
+        description: "Create inventory item",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["name", "category", "unitOfMeasure"],
+          properties: {
+            ...inventoryItemProperties,
+            currentStock: { type: "integer", minimum: 0 }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: InventoryItemCreateRequest }>, reply: FastifyReply) => {
+    try {
+      const { id: userId, currentOrganizationId } = request.user;
+      const { currentStock, expirationDate, ...itemData } = request.body;
+
+      if (itemData.maximumStock !== undefined && itemData.maximumStock < (itemData.minimumStock ?? 0)) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', 'maximumStock must not be less than minimumStock'));
+      }
+
+      if (itemData.sku) {
+        const existingItem = await server.prisma.inventoryItem.findUnique({
+          where: { sku: itemData.sku }
+        });
+
+        if (existingItem) {
+          return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Inventory item with this SKU already exists'));
+        }
+      }
+
+      const item = await server.prisma.$transaction(async (tx) => {
+        const createdItem = await tx.inventoryItem.create({
+          data: {
+            ...itemData,
+            expirationDate: expirationDate ? new Date(expirationDate) : undefined,
+            organizationId: currentOrganizationId!
+          }
+        });
+
+        if (!currentStock) {
+          return createdItem;
+        }
+
+        const result = await applyInventoryTransaction(tx, createdItem.id, {
+          type: 'in',
+          quantity: currentStock,
+          reason: 'opening balance'
+        }, userId);
+
+        return result.item!;
+      });
+
+      reply.code(201).send(item);
+
+    } catch (error) {
+      server.log.error('Create inventory item error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // PUT /api/inventory/:id - Update item details (stock only changes through transactions)
+  server.put<{ Params: { id: string }, Body: InventoryItemUpdateRequest }>(
+    '/:id',
+    {
+      schema: {
+        tags: ["Inventory"],
+        description: "Update inventory item",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          properties: inventoryItemProperties
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: InventoryItemUpdateRequest }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { expirationDate, ...itemData } = request.body;
+
+      const existingItem = await findAccessibleItem(id, request.user.organizationIds);
+
+      if (!existingItem) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Inventory item not found'));
+      }
+
+      const minimumStock = itemData.minimumStock ?? existingItem.minimumStock;
+      const maximumStock = itemData.maximumStock ?? existingItem.maximumStock;
+      if (maximumStock !== null && maximumStock !== undefined && maximumStock < minimumStock) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', 'maximumStock must not be less than minimumStock'));
+      }
+
+      if (itemData.sku && itemData.sku !== existingItem.sku) {
+        const skuConflict = await server.prisma.inventoryItem.findUnique({
+          where: { sku: itemData.sku }
+        });
+
+        if (skuConflict) {
+          return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Inventory item with this SKU already exists'));
+        }
+      }
+
+      const updateData: any = {
+        ...itemData,
+        expirationDate: expirationDate ? new Date(expirationDate) : undefined
+      };
+
+      // Remove undefined values
+      Object.keys(updateData).forEach(key => updateData[key] === undefined && delete updateData[key]);
+
+      const item = await server.prisma.inventoryItem.update({
+        where: { id },
+        data: updateData
+      });
+
+      reply.send(item);
+
+    } catch (error) {
+      server.log.error('Update inventory item error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/inventory/:id/transactions - Stock ledger for one item
+  server.get<{ Params: { id: string } }>(
+    '/:id/transactions',
+    {
+      schema: {
+        tags: ["Inventory"],
+        description: "List transactions for an inventory item",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      const item = await findAccessibleItem(id, request.user.organizationIds);
+
+      if (!item) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Inventory item not found'));
+      }
+
+      const transactions = await server.prisma.inventoryTransaction.findMany({
+        where: { itemId: id },
+        orderBy: { date: 'desc' }
+      });
+
+      reply.send({ transactions, total: transactions.length });
+
+    } catch (error) {
+      server.log.error('List item transactions error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/inventory/:id/transactions - Record stock movement and update currentStock atomically
+  server.post<{ Params: { id: string }, Body: InventoryTransactionRequest }>(
+    '/:id/transactions',
+    {
+      schema: {
+        tags: ["Inventory"],
+        description: "Record inventory transaction",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: inventoryTransactionBodySchema
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: InventoryTransactionRequest }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { id: userId, organizationIds } = request.user;
+
+      const validationError = validateInventoryTransaction(request.body);
+      if (validationError) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', validationError));
+      }
+
+      const item = await findAccessibleItem(id, organizationIds);
+
+      if (!item) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Inventory item not found'));
+      }
+
+      const result = await server.prisma.$transaction(tx =>
+        applyInventoryTransaction(tx, id, request.body, userId)
+      );
+
+      if (result.error) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', result.error));
+      }
+
+      reply.code(201).send(result);
+
+    } catch (error) {
+      server.log.error('Record inventory transaction error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
@@ -0,0 +1,627 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { createOperationOutcome, transformInvoiceFromDB, createSearchBundle, getSearchPaging, getSearchOrderBy, searchResultParamsSchema, SearchResultParams } from '../utils/fhir.js';
+import { buildAgingReport, calculateInvoiceTotals, generateInvoiceNumber, roundCurrency, validateLineItems } from '../utils/billing.js';
+import { InvoiceCreateRequest, InvoiceUpdateRequest, PaymentRequest } from '../types/billing.js';
+
+type InvoiceListQuery = { status?: string, patient?: string };
+type InvoiceSearchQuery = InvoiceListQuery & SearchResultParams;
+
+const MAX_INVOICE_NUMBER_ATTEMPTS = 3;
+
+const lineItemsSchema = {
+  type: "array",
+  minItems: 1,
+  items: {
+    type: "object",
+    required: ["description", "quantity", "unitPrice"],
+    properties: {
+      description: { type: "string", minLength: 1 },
+      code: { type: "string" },
+      quantity: { type: "number", exclusiveMinimum: 0 },
+      unitPrice: { type: "number", minimum: 0 }
+    }
+  }
+};
+
+// _sort parameters supported by Invoice search and the fields they order by
+const INVOICE_SORT_FIELDS: Record<string, string> = {
+  date: 'issueDate',
+  status: 'status',
+  totalgross: 'totalAmount',
+  _lastUpdated: 'updatedAt'
+};
+
+export default async function invoiceRoutes(server: FastifyInstance) {
+
+  // Build the where clause shared by the REST list and the FHIR search
+  function buildInvoiceWhere(organizationIds: string[], query: InvoiceListQuery) {
+    const where: any = {
+      organizationId: { in: organizationIds }
+    };
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    if (query.patient) {
+      where.patientId = query.patient;
+    }
+
+    return where;
+  }
+
+  async function findAccessibleInvoice(id: string, organizationIds: string[]) {
+    return server.prisma.invoice.findFirst({
+      where: {
+        id,
+        organizationId: { in: organizationIds }
+      }
+    });
+  }
+
+  // GET /api/invoices - List invoices for the user's organizations
+  server.get<{ Querystring: InvoiceListQuery }>(
+    '/api/invoices',
+    {
+      schema: {
+        tags: ["Billing"],
+        description: "List invoices",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            status: { type: "string" },
+            patient: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: InvoiceListQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+
+      const invoices = await server.prisma.invoice.findMany({
+        where: buildInvoiceWhere(organizationIds, request.query),
+        orderBy: { issueDate: 'desc' }
+      });
+
+      reply.send({ invoices, total: invoices.length });
+
+    } catch (error) {
+      server.log.error('List invoices error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/invoices/aging - Outstanding balances per organization in 0-30/31-60/61-90/90+ day buckets
+  server.get<{ Querystring: { organization?: string } }>(
+    '/api/invoices/aging',
+    {
+      schema: {
+        tags: ["Billing"],
+        description: "Accounts receivable aging report per organization",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            organization: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: { organization?: string } }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const { organization } = request.query;
+
+      if (organization && !organizationIds.includes(organization)) {
+        return reply.code(403).send(createOperationOutcome('error', 'forbidden', 'Access denied to organization'));
+      }
+
+      const invoices = await server.prisma.invoice.findMany({
+        where: {
+          organizationId: organization ? organization : { in: organizationIds },
+          status: { in: ['issued', 'overdue'] }
+        },
+        select: { organizationId: true, currency: true, dueDate: true, totalAmount: true, paidAmount: true }
+      });
+
+      const asOf = new Date();
+      const rows = buildAgingReport(invoices, asOf);
+
+      const organizations = await server.prisma.organization.findMany({
+        where: { id: { in: rows.map(row => row.organizationId) } },
+        select: { id: true, name: true }
+      });
+      const organizationNames = new Map(organizations.map(org => [org.id, org.name]));
+
+      reply.send({
+        asOf: asOf.toISOString(),
+        organizations: rows.map(row => ({
+          ...row,
+          organizationName: organizationNames.get(row.organizationId)
+        }))
+      });
+
+    } catch (error) {
+      server.log.error('Invoice aging report error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/invoices/:id - Get invoice by ID
+  server.get<{ Params: { id: string } }>(
+    '/api/invoices/:id',
+    {
+      schema: {
+        tags: ["Billing"],
+        description: "Get invoice by ID",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const invoice = await findAccessibleInvoice(request.params.id, request.user.organizationIds);
+
+      if (!invoice) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Invoice not found'));
+      }
+
+      reply.send(invoice);
+
+    } catch (error) {
+      server.log.error('Get invoice error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/invoices - Create invoice with the next sequential number
+  server.post<{ Body: InvoiceCreateRequest }>(
+    '/api/invoices',
+    {
+      schema: {
+        tags: ["Billing"],
+        description: "Create invoice",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["patientId", "lineItems", "dueDate"],
+          properties: {
+            patientId: { type: "string" },
+            lineItems: lineItemsSchema,
+            dueDate: { type: "string", format: "date" },
+            currency: { type: "string", minLength: 3, maxLength: 3 },
+            status: { type: "string", enum: ["draft", "issued"] },
+            notes: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: InvoiceCreateRequest }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const body = request.body;
+
+      const lineItemError = validateLineItems(body.lineItems);
+      if (lineItemError) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', lineItemError));
+      }
+
+      const patient = await server.prisma.patient.findFirst({
+        where: {
+          id: body.patientId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!patient) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found or no access'));
+      }
+
+      const { lineItems, totalAmount } = calculateInvoiceTotals(body.lineItems);
+
+      // Concurrent creates can race for the same number, so retry on unique violations
+      let invoice;
+      for (let attempt = 1; !invoice; attempt++) {
+        try {
+          invoice = await server.prisma.$transaction(async (tx) => {
+            const invoiceNumber = await generateInvoiceNumber(tx, currentOrganizationId!);
+
+            return tx.invoice.create({
+              data: {
+                invoiceNumber,
+                status: body.status || 'draft',
+                patientId: body.patientId,
+                organizationId: currentOrganizationId!,
+                totalAmount,
+                currency: body.currency?.toUpperCase() || 'USD',
+                dueDate: new Date(body.dueDate),
+                lineItems: lineItems as any,
+                notes: body.notes
+              }
+            });
+          });
+        } catch (error) {
+          const numberTaken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+          if (!numberTaken || attempt >= MAX_INVOICE_NUMBER_ATTEMPTS) {
+            throw error;
+          }
+        }
+      }
+
+      reply.code(201).send(invoice);
+
+    } catch (error) {
+      server.log.error('Create invoice error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // PUT /api/invoices/:id - Update a draft invoice
+  server.put<{ Params: { id: string }, Body: InvoiceUpdateRequest }>(
+    '/api/invoices/:id',
+    {
+      schema: {
+        tags: ["Billing"],
+        description: "Update draft invoice",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          properties: {
+            lineItems: lineItemsSchema,
+            dueDate: { type: "string", format: "date" },
+            notes: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: InvoiceUpdateRequest }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const body = request.body;
+
+      const existingInvoice = await findAccessibleInvoice(id, request.user.organizationIds);
+
+      if (!existingInvoice) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Invoice not found'));
+      }
+
+      if (existingInvoice.status !== 'draft') {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Only draft invoices can be modified'));
+      }
+
+      const updateData: any = {
+        dueDate: body.dueDate ? new Date(body.dueDate) : undefined,
+        notes: body.notes
+      };
+
+      // Line items are always recomputed server-side
+      if (body.lineItems) {
+        const lineItemError = validateLineItems(body.lineItems);
+        if (lineItemError) {
+          return reply.code(400).send(createOperationOutcome('error', 'invalid', lineItemError));
+        }
+
+        const { lineItems, totalAmount } = calculateInvoiceTotals(body.lineItems);
+        updateData.lineItems = lineItems;
+        updateData.totalAmount = totalAmount;
+      }
+
+      // Remove undefined values
+      Object.keys(updateData).forEach(key => updateData[key] === undefined && delete updateData[key]);
+
+      const invoice = await server.prisma.invoice.update({
+        where: { id },
+        data: updateData
+      });
+
+      reply.send(invoice);
+
+    } catch (error) {
+      server.log.error('Update invoice error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/invoices/:id/issue - Issue a draft invoice
+  server.post<{ Params: { id: string } }>(
+    '/api/invoices/:id/issue',
+    {
+      schema: {
+        tags: ["Billing"],
+        description: "Issue draft invoice",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      const existingInvoice = await findAccessibleInvoice(id, request.user.organizationIds);
+
+      if (!existingInvoice) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Invoice not found'));
+      }
+
+      if (existingInvoice.status !== 'draft') {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Cannot issue an invoice with status ${existingInvoice.status}`));
+      }
+
+      const invoice = await server.prisma.invoice.update({
+        where: { id },
+        data: {
+          status: 'issued',
+          issueDate: new Date()
+        }
+      });
+
+      reply.send(invoice);
+
+    } catch (error) {
+      server.log.error('Issue invoice error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/invoices/:id/payments - Record a partial or full payment
+  server.post<{ Params: { id: string }, Body: PaymentRequest }>(
+    '/api/invoices/:id/payments',
+    {
+      schema: {
+        tags: ["Billing"],
+        description: "Record invoice payment",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          required: ["amount"],
+          properties: {
+            amount: { type: "number", exclusiveMinimum: 0 },
+            date: { type: "string", format: "date" },
+            method: { type: "string" },
+            reference: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: PaymentRequest }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { amount, date, method, reference } = request.body;
+
+      const existingInvoice = await findAccessibleInvoice(id, request.user.organizationIds);
+
+      if (!existingInvoice) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Invoice not found'));
+      }
+
+      if (!['issued', 'overdue'].includes(existingInvoice.status)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Cannot record a payment against an invoice with status ${existingInvoice.status}`));
+      }
+
+      const payment = roundCurrency(amount);
+      const outstanding = roundCurrency(existingInvoice.totalAmount - existingInvoice.paidAmount);
+
+      if (payment > outstanding) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Payment of ${payment} exceeds outstanding balance of ${outstanding}`));
+      }
+
+      const paidAmount = roundCurrency(existingInvoice.paidAmount + payment);
+      const fullyPaid = paidAmount >= existingInvoice.totalAmount;
+
+      // Guard on the paidAmount and status read above so a concurrent payment
+      // is neither lost nor allowed to push the total past the balance. The
+      // payment itself (with its method and reference) is kept in the audit log.
+      const recorded = await server.prisma.$transaction(async (tx) => {
+        const { count } = await tx.invoice.updateMany({
+          where: {
+            id,
+            paidAmount: existingInvoice.paidAmount,
+            status: { in: ['issued', 'overdue'] }
+          },
+          data: {
+            paidAmount,
+            ...(fullyPaid && {
+              status: 'paid',
+              paidDate: date ? new Date(date) : new Date()
+            })
+          }
+        });
+
+        if (count === 0) {
+          return false;
+        }
+
+        await tx.auditLog.create({
+          data: {
+            userId: request.user.id,
+            organizationId: existingInvoice.organizationId,
+            resourceType: 'Invoice',
+            resourceId: id,
+            action: 'UPDATE',
+            changes: {
+              payment: {
+                amount: payment,
+                date: date ?? new Date().toISOString().slice(0, 10),
+                ...(method && { method }),
+                ...(reference && { reference })
+              },
+              paidAmount: { from: existingInvoice.paidAmount, to: paidAmount },
+              ...(fullyPaid && { status: { from: existingInvoice.status, to: 'paid' } })
+            }
+          }
+        });
+
+        return true;
+      });
+
+      if (!recorded) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Invoice was modified by another request; retry the payment'));
+      }
+
+      const invoice = await server.prisma.invoice.findUniqueOrThrow({ where: { id } });
+
+      reply.send(invoice);
+
+    } catch (error) {
+      server.log.error('Record payment error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // DELETE /api/invoices/:id - Cancel an unpaid invoice
+  server.delete<{ Params: { id: string } }>(
+    '/api/invoices/:id',
+    {
+      schema: {
+        tags: ["Billing"],
+        description: "Cancel invoice",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      const existingInvoice = await findAccessibleInvoice(id, request.user.organizationIds);
+
+      if (!existingInvoice) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Invoice not found'));
+      }
+
+      if (existingInvoice.paidAmount > 0) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Invoices with recorded payments cannot be cancelled'));
+      }
+
+      await server.prisma.invoice.update({
+        where: { id },
+        data: { status: 'cancelled' }
+      });
+
+      reply.code(204).send();
+
+    } catch (error) {
+      server.log.error('Cancel invoice error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Invoice - Search invoices (FHIR export)
+  server.get<{ Querystring: InvoiceSearchQuery }>(
+    '/fhir/Invoice',
+    {
+      schema: {
+        tags: ["Billing"],
+        description: "Search invoices (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            status: { type: "string" },
+            patient: { type: "string" },
+            ...searchResultParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: InvoiceSearchQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const where = buildInvoiceWhere(organizationIds, request.query);
+
+      const paging = getSearchPaging(request.query);
+      const orderBy = getSearchOrderBy(request.query, INVOICE_SORT_FIELDS, { issueDate: 'desc' });
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${request.query._sort}`));
+      }
+
+      const [invoices, total] = await Promise.all([
+        server.prisma.invoice.findMany({
+          where,
+          orderBy,
+          ...paging
+        }),
+        server.prisma.invoice.count({ where })
+      ]);
+
+      const entries = invoices.map(invoice => ({
+        fullUrl: `${request.protocol}://${request.hostname}/fhir/Invoice/${invoice.id}`,
+        resource: transformInvoiceFromDB(invoice)
+      }));
+
+      const bundle = createSearchBundle(request, entries, total, paging);
+      reply.send(bundle);
+
+    } catch (error) {
+      server.log.error('Search FHIR invoices error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Invoice/:id - Get invoice by ID (FHIR export)
+  server.get<{ Params: { id: string } }>(
+    '/fhir/Invoice/:id',
+    {
+      schema: {
+        tags: ["Billing"],
+        description: "Get invoice by ID (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const invoice = await findAccessibleInvoice(request.params.id, request.user.organizationIds);
+
+      if (!invoice) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Invoice not found'));
+      }
+
+      reply.send(transformInvoiceFromDB(invoice));
+
+    } catch (error) {
+      server.log.error('Get FHIR invoice error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
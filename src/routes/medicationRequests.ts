@@ -0,0 +1,548 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { createOperationOutcome, transformMedicationRequestFromDB, transformMedicationRequestToDB, parseDateSearchParams, createSearchBundle, getSearchPaging, getSearchOrderBy, searchResultParamsSchema, SearchResultParams, toJsonInput } from '../utils/fhir.js';
+import { applyInventoryTransaction, findMedicationInventoryItems } from '../utils/inventory.js';
+import { FHIRMedicationRequest } from '../types/fhir.js';
+
+type MedicationRequestSearchQuery = { patient?: string, requester?: string, medication?: string, status?: string, intent?: string, authoredon?: string[] } & SearchResultParams;
+type MedicationRequestCreateBody = FHIRMedicationRequest & { patientId: string, practitionerId: string };
+type MedicationDispenseBody = { inventoryItemId?: string };
+
+const medicationRequestIntents = ["proposal", "plan", "order"];
+
+// Allowed prescription status transitions (draft → active → completed/cancelled)
+const statusTransitions: Record<string, string[]> = {
+  draft: ["active", "cancelled"],
+  active: ["completed", "cancelled"],
+  completed: [],
+  cancelled: []
+};
+
+// _sort parameters supported by MedicationRequest search and the fields they order by
+const MEDICATION_REQUEST_SORT_FIELDS: Record<string, string> = {
+  authoredon: 'authoredOn',
+  status: 'status',
+  intent: 'intent',
+  _lastUpdated: 'updatedAt'
+};
+
+export default async function medicationRequestRoutes(server: FastifyInstance) {
+
+  // Resolve a "Medication/{id}" reference to a medication in the user's organizations
+  async function findMedication(reference: string | undefined, organizationIds: string[]) {
+    const medicationId = reference?.replace(/^Medication\//, '');
+    if (!medicationId) {
+      return null;
+    }
+
+    return server.prisma.medication.findFirst({
+      where: {
+        id: medicationId,
+        organizationId: { in: organizationIds },
+        status: 'active'
+      }
+    });
+  }
+
+  // GET /fhir/MedicationRequest - Search prescriptions
+  server.get<{ Querystring: MedicationRequestSearchQuery }>(
+    '/MedicationRequest',
+    {
+      schema: {
+        tags: ["Medications"],
+        description: "Search medication requests (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            patient: { type: "string" },
+            requester: { type: "string" },
+            medication: { type: "string" },
+            status: { type: "string" },
+            intent: { type: "string" },
+            authoredon: { type: "array", items: { type: "string" } },
+            ...searchResultParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: MedicationRequestSearchQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const query = request.query;
+
+      let where: any = {
+        organizationId: { in: organizationIds }
+      };
+
+      // Patient filtering
+      if (query.patient) {
+        where.patientId = query.patient;
+      }
+
+      // Prescriber filtering
+      if (query.requester) {
+        where.practitionerId = query.requester;
+      }
+
+      // Medication filtering
+      if (query.medication) {
+        where.medicationReference = query.medication;
+      }
+
+      // Status filtering
+      if (query.status) {
+        where.status = query.status;
+      }
+
+      // Intent filtering
+      if (query.intent) {
+        where.intent = query.intent;
+      }
+
+      // Authored date range filtering
+      if (query.authoredon) {
+        const dateFilter = parseDateSearchParams(query.authoredon);
+        if (!dateFilter) {
+          return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Invalid authoredon search parameter'));
+        }
+        where.authoredOn = dateFilter;
+      }
+
+      const paging = getSearchPaging(query);
+      const orderBy = getSearchOrderBy(query, MEDICATION_REQUEST_SORT_FIELDS, { authoredOn: 'desc' });
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${query._sort}`));
+      }
+
+      const [medicationRequests, total] = await Promise.all([
+        server.prisma.medicationRequest.findMany({
+          where,
+          orderBy,
+          ...paging
+        }),
+        server.prisma.medicationRequest.count({ where })
+      ]);
+
+      const entries = medicationRequests.map(medicationRequest => ({
+        fullUrl: `${request.protocol}://${request.hostname}/fhir/MedicationRequest/${medicationRequest.id}`,
+        resource: transformMedicationRequestFromDB(medicationRequest)
+      }));
+
+      const bundle = createSearchBundle(request, entries, total, paging);
+      reply.send(bundle);
+
+    } catch (error) {
+      server.log.error('Search medication requests error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/MedicationRequest/:id - Get prescription by ID
+  server.get<{ Params: { id: string } }>(
+    '/MedicationRequest/:id',
+    {
+      schema: {
+        tags: ["Medications"],
+        description: "Get medication request by ID (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const medicationRequest = await server.prisma.medicationRequest.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!medicationRequest) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Medication request not found'));
+      }
+
+      reply.send(transformMedicationRequestFromDB(medicationRequest));
+
+    } catch (error) {
+      server.log.error('Get medication request error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /fhir/MedicationRequest - Create prescription
+  server.post<{ Body: MedicationRequestCreateBody }>(
+    '/MedicationRequest',
+    {
+      schema: {
+        tags: ["Medications"],
+        description: "Create medication request (FHIR)",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["resourceType", "status", "intent", "patientId", "practitionerId"],
+          properties: {
+            resourceType: { type: "string", enum: ["MedicationRequest"] },
+            status: { type: "string", enum: ["draft", "active"] },
+            intent: { type: "string", enum: medicationRequestIntents },
+            patientId: { type: "string" },
+            practitionerId: { type: "string" },
+            medicationReference: { type: "object" },
+            medicationCodeableConcept: { type: "object" },
+            authoredOn: { type: "string" },
+            reasonCode: { type: "array" },
+            dosageInstruction: { type: "array" },
+            dispenseRequest: { type: "object" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: MedicationRequestCreateBody }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId, organizationIds } = request.user;
+      const { patientId, practitionerId, ...medicationRequestData } = request.body;
+
+      if (!medicationRequestData.medicationReference === !medicationRequestData.medicationCodeableConcept) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Exactly one of medicationReference or medicationCodeableConcept is required'));
+      }
+
+      // Validate patient access
+      const patient = await server.prisma.patient.findFirst({
+        where: {
+          id: patientId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!patient) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found or no access'));
+      }
+
+      // The prescriber must be affiliated with the current organization
+      const practitioner = await server.prisma.practitioner.findFirst({
+        where: {
+          id: practitionerId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!practitioner) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Practitioner not found or no access'));
+      }
+
+      let medicationId: string | undefined;
+      if (medicationRequestData.medicationReference) {
+        const medication = await findMedication(medicationRequestData.medicationReference.reference, organizationIds);
+        if (!medication) {
+          return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Medication not found or no access'));
+        }
+        medicationId = medication.id;
+      }
+
+      const dbMedicationRequestData = transformMedicationRequestToDB(medicationRequestData, patientId, practitionerId, currentOrganizationId!, medicationId);
+
+      const medicationRequest = await server.prisma.medicationRequest.create({
+        data: dbMedicationRequestData
+      });
+
+      reply.code(201).send(transformMedicationRequestFromDB(medicationRequest));
+
+    } catch (error) {
+      server.log.error('Create medication request error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // PUT /fhir/MedicationRequest/:id - Update prescription
+  server.put<{ Params: { id: string }, Body: FHIRMedicationRequest }>(
+    '/MedicationRequest/:id',
+    {
+      schema: {
+        tags: ["Medications"],
+        description: "Update medication request (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          required: ["resourceType", "status", "intent"],
+          properties: {
+            resourceType: { type: "string", enum: ["MedicationRequest"] },
+            status: { type: "string", enum: Object.keys(statusTransitions) },
+            intent: { type: "string", enum: medicationRequestIntents },
+            medicationReference: { type: "object" },
+            medicationCodeableConcept: { type: "object" },
+            reasonCode: { type: "array" },
+            dosageInstruction: { type: "array" },
+            dispenseRequest: { type: "object" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: FHIRMedicationRequest }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      // Check if prescription exists and user has access
+      const existingMedicationRequest = await server.prisma.medicationRequest.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!existingMedicationRequest) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Medication request not found'));
+      }
+
+      const currentStatus = existingMedicationRequest.status;
+      const nextStatus = request.body.status;
+
+      if (statusTransitions[currentStatus]?.length === 0) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Medication request is ${currentStatus} and can no longer be modified`));
+      }
+
+      if (nextStatus !== currentStatus && !statusTransitions[currentStatus]?.includes(nextStatus)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Invalid status transition from ${currentStatus} to ${nextStatus}`));
+      }
+
+      let medicationId: string | undefined;
+      if (request.body.medicationReference) {
+        const medication = await findMedication(request.body.medicationReference.reference, organizationIds);
+        if (!medication) {
+          return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Medication not found or no access'));
+        }
+        medicationId = medication.id;
+      }
+
+      const updateData: Prisma.MedicationRequestUncheckedUpdateInput = {
+        status: nextStatus,
+        intent: request.body.intent,
+        medicationReference: medicationId,
+        medicationCodeable: toJsonInput(request.body.medicationCodeableConcept),
+        reasonCode: toJsonInput(request.body.reasonCode),
+        dosageInstruction: request.body.dosageInstruction,
+        dispenseRequest: request.body.dispenseRequest
+      };
+
+      // Remove undefined values
+      Object.keys(updateData).forEach(key =>
+        updateData[key as keyof typeof updateData] === undefined && delete updateData[key as keyof typeof updateData]
+      );
+
+      const medicationRequest = await server.prisma.medicationRequest.update({
+        where: { id },
+        data: updateData
+      });
+
+      reply.send(transformMedicationRequestFromDB(medicationRequest));
+
+    } catch (error) {
+      server.log.error('Update medication request error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /fhir/MedicationRequest/:id/$dispense - Dispense a prescription from inventory stock
+  server.post<{ Params: { id: string }, Body: MedicationDispenseBody }>(
+    '/MedicationRequest/:id/$dispense',
+    {
+      schema: {
+        tags: ["Medications"],
+        description: "Dispense medication request, recording an inventory out transaction (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          properties: {
+            inventoryItemId: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: MedicationDispenseBody }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { id: userId, organizationIds } = request.user;
+      const { inventoryItemId } = request.body || {};
+
+      const medicationRequest = await server.prisma.medicationRequest.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        },
+        include: { medication: true }
+      });
+
+      if (!medicationRequest) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Medication request not found'));
+      }
+
+      if (medicationRequest.status !== 'active') {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Only active medication requests can be dispensed (status is ${medicationRequest.status})`));
+      }
+
+      const dispenseRequest: any = medicationRequest.dispenseRequest || {};
+      const quantity = dispenseRequest.quantity?.value;
+
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', 'dispenseRequest.quantity.value must be a positive whole number to dispense'));
+      }
+
+      const allowedDispenses = 1 + (dispenseRequest.numberOfRepeatsAllowed ?? 0);
+      const reference = `MedicationRequest/${id}`;
+      const medicationCode = medicationRequest.medication?.code ?? medicationRequest.medicationCodeable;
+
+      const result = await server.prisma.$transaction(async (tx) => {
+        // Lock the prescription row so concurrent dispenses run one at a time: the
+        // status and the count of previous dispenses are only read under the lock
+        const [locked] = await tx.$queryRaw<{ status: string }[]>`SELECT status FROM "medication_requests" WHERE id = ${id} FOR UPDATE`;
+
+        if (locked?.status !== 'active') {
+          return { status: 409, code: 'conflict', message: `Only active medication requests can be dispensed (status is ${locked?.status})` };
+        }
+
+        // Dispenses are linked by medicationRequestId, which only $dispense sets: a
+        // manual stock-out quoting the same reference doesn't use up a dispense
+        const previousDispenses = await tx.inventoryTransaction.count({
+          where: { medicationRequestId: id, type: 'out' }
+        });
+
+        if (previousDispenses >= allowedDispenses) {
+          return { status: 409, code: 'conflict', message: 'All allowed dispenses for this medication request have been used' };
+        }
+
+        // An explicitly chosen item must still be unexpired stock of the prescribed medication
+        const matchingItems = await findMedicationInventoryItems(tx, medicationRequest.organizationId, medicationCode);
+        const candidates = inventoryItemId
+          ? matchingItems.filter(item => item.id === inventoryItemId)
+          : matchingItems;
+
+        if (candidates.length === 0) {
+          return {
+            status: 404,
+            code: 'not-found',
+            message: inventoryItemId
+              ? 'Inventory item not found, expired, or not stock of the prescribed medication'
+              : 'No matching medication inventory item found'
+          };
+        }
+
+        const item = candidates.find(candidate => candidate.currentStock >= quantity);
+        if (!item) {
+          return { status: 409, code: 'conflict', message: `Insufficient stock to dispense ${quantity} ${candidates[0].unitOfMeasure}` };
+        }
+
+        const stockResult = await applyInventoryTransaction(tx, item.id, {
+          type: 'out',
+          quantity,
+          reason: 'dispense',
+          reference
+        }, userId, id);
+
+        if (stockResult.error) {
+          return { status: 409, code: 'conflict', message: stockResult.error };
+        }
+
+        // The final allowed dispense completes the prescription
+        const remainingDispenses = allowedDispenses - previousDispenses - 1;
+        const updatedRequest = remainingDispenses === 0
+          ? await tx.medicationRequest.update({ where: { id }, data: { status: 'completed' } })
+          : medicationRequest;
+
+        return { updatedRequest, inventoryTransaction: stockResult.transaction, remainingDispenses };
+      });
+
+      if (result.status !== undefined) {
+        return reply.code(result.status).send(createOperationOutcome('error', result.code, result.message));
+      }
+
+      reply.send({
+        medicationRequest: transformMedicationRequestFromDB(result.updatedRequest),
+        inventoryTransaction: result.inventoryTransaction,
+        remainingDispenses: result.remainingDispenses
+      });
+
+    } catch (error) {
+      server.log.error('Dispense medication request error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // DELETE /fhir/MedicationRequest/:id - Cancel prescription
+  server.delete<{ Params: { id: string } }>(
+    '/MedicationRequest/:id',
+    {
+      schema: {
+        tags: ["Medications"],
+        description: "Cancel medication request (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const medicationRequest = await server.prisma.medicationRequest.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!medicationRequest) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Medication request not found'));
+      }
+
+      if (!statusTransitions[medicationRequest.status]?.includes('cancelled')) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Medication request is ${medicationRequest.status} and cannot be cancelled`));
+      }
+
+      await server.prisma.medicationRequest.update({
+        where: { id },
+        data: { status: 'cancelled' }
+      });
+
+      reply.code(204).send();
+
+    } catch (error) {
+      server.log.error('Cancel medication request error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
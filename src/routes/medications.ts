@@ -0,0 +1,226 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { createOperationOutcome, transformMedicationFromDB, transformMedicationToDB, parseTokenParam, createSearchBundle, getSearchPaging, getSearchOrderBy, searchResultParamsSchema, SearchResultParams } from '../utils/fhir.js';
+import { FHIRMedication } from '../types/fhir.js';
+
+type MedicationSearchQuery = { code?: string, status?: string } & SearchResultParams;
+
+const medicationStatuses = ["active", "inactive", "entered-in-error"];
+
+// _sort parameters supported by Medication search and the fields they order by
+const MEDICATION_SORT_FIELDS: Record<string, string> = {
+  status: 'status',
+  _lastUpdated: 'updatedAt'
+};
+
+export default async function medicationRoutes(server: FastifyInstance) {
+
+  // GET /fhir/Medication - Search medications
+  server.get<{ Querystring: MedicationSearchQuery }>(
+    '/Medication',
+    {
+      schema: {
+        tags: ["Medications"],
+        description: "Search medications (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            code: { type: "string" },
+            status: { type: "string" },
+            ...searchResultParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: MedicationSearchQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const query = request.query;
+
+      let where: any = {
+        organizationId: { in: organizationIds }
+      };
+
+      // Code filtering (system|code or code)
+      if (query.code) {
+        where.code = {
+          path: ['coding'],
+          array_contains: [parseTokenParam(query.code)]
+        };
+      }
+
+      // Status filtering
+      if (query.status) {
+        where.status = query.status;
+      }
+
+      const paging = getSearchPaging(query);
+      const orderBy = getSearchOrderBy(query, MEDICATION_SORT_FIELDS, { createdAt: 'desc' });
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${query._sort}`));
+      }
+
+      const [medications, total] = await Promise.all([
+        server.prisma.medication.findMany({
+          where,
+          orderBy,
+          ...paging
+        }),
+        server.prisma.medication.count({ where })
+      ]);
+
+      const entries = medications.map(medication => ({
+        fullUrl: `${request.protocol}://${request.hostname}/fhir/Medication/${medication.id}`,
+        resource: transformMedicationFromDB(medication)
+      }));
+
+      const bundle = createSearchBundle(request, entries, total, paging);
+      reply.send(bundle);
+
+    } catch (error) {
+      server.log.error('Search medications error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Medication/:id - Get medication by ID
+  server.get<{ Params: { id: string } }>(
+    '/Medication/:id',
+    {
+      schema: {
+        tags: ["Medications"],
+        description: "Get medication by ID (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const medication = await server.prisma.medication.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!medication) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Medication not found'));
+      }
+
+      reply.send(transformMedicationFromDB(medication));
+
+    } catch (error) {
+      server.log.error('Get medication error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /fhir/Medication - Create medication in the current organization's formulary
+  server.post<{ Body: FHIRMedication }>(
+    '/Medication',
+    {
+      schema: {
+        tags: ["Medications"],
+        description: "Create medication (FHIR)",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["resourceType", "code"],
+          properties: {
+            resourceType: { type: "string", enum: ["Medication"] },
+            code: { type: "object" },
+            status: { type: "string", enum: medicationStatuses },
+            identifier: { type: "array" },
+            manufacturer: { type: "object" },
+            form: { type: "object" },
+            ingredient: { type: "array" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: FHIRMedication }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const medicationData = transformMedicationToDB(request.body, currentOrganizationId!);
+
+      const medication = await server.prisma.medication.create({
+        data: medicationData
+      });
+
+      reply.code(201).send(transformMedicationFromDB(medication));
+
+    } catch (error) {
+      server.log.error('Create medication error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // PUT /fhir/Medication/:id - Update medication
+  server.put<{ Params: { id: string }, Body: FHIRMedication }>(
+    '/Medication/:id',
+    {
+      schema: {
+        tags: ["Medications"],
+        description: "Update medication (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          required: ["resourceType", "code"],
+          properties: {
+            resourceType: { type: "string", enum: ["Medication"] },
+            code: { type: "object" },
+            status: { type: "string", enum: medicationStatuses },
+            identifier: { type: "array" },
+            manufacturer: { type: "object" },
+            form: { type: "object" },
+            ingredient: { type: "array" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: FHIRMedication }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      // Check if medication exists and user has access
+      const existingMedication = await server.prisma.medication.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!existingMedication) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Medication not found'));
+      }
+
+      const medicationData = transformMedicationToDB(request.body, existingMedication.organizationId);
+
+      const medication = await server.prisma.medication.update({
+        where: { id },
+        data: medicationData
+      });
+
+      reply.send(transformMedicationFromDB(medication));
+
+    } catch (error) {
+      server.log.error('Update medication error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
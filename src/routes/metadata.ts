@@ -0,0 +1,37 @@
+import { FastifyInstance, FastifyRequest, FastifyReply, RouteOptions } from 'fastify';
+import { config } from '../config/environment.js';
+import { createOperationOutcome } from '../utils/fhir.js';
+import { createCapabilityRest, createCapabilityStatement } from '../utils/capability.js';
+import { FHIRCapabilityStatementRest } from '../types/fhir.js';
+
+// `routes` is every route registered on the server, recorded by an onRoute hook
+export default async function metadataRoutes(server: FastifyInstance, options: { routes: RouteOptions[] }) {
+  // The route-derived part is built on first request, once every route has been registered
+  let capabilityRest: FHIRCapabilityStatementRest | undefined;
+
+  // GET /fhir/metadata - CapabilityStatement (public, used by clients to discover the server)
+  server.get(
+    '/metadata',
+    {
+      schema: {
+        tags: ["Metadata"],
+        description: "Server CapabilityStatement (FHIR capabilities interaction)"
+      }
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!capabilityRest) {
+        capabilityRest = createCapabilityRest(options.routes, config.api.fhirPath);
+      }
+
+      reply.send(createCapabilityStatement(
+        capabilityRest,
+        config.api.publicBaseUrl && `${config.api.publicBaseUrl.replace(/\/+$/, '')}${config.api.fhirPath}`
+      ));
+
+    } catch (error) {
+      server.log.error('Capability statement error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
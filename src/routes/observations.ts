@@ -0,0 +1,361 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { createOperationOutcome, transformObservationFromDB, transformObservationToDB, parseTokenParam, parseDateSearchParams, createSearchBundle, getSearchPaging, getSearchOrderBy, searchResultParamsSchema, SearchResultParams, toJsonInput } from '../utils/fhir.js';
+import { FHIRObservation } from '../types/fhir.js';
+
+type ObservationSearchQuery = { patient?: string, encounter?: string, code?: string, category?: string, date?: string[], status?: string } & SearchResultParams;
+type ObservationCreateBody = FHIRObservation & { patientId: string, encounterId?: string };
+
+const observationStatuses = ["registered", "preliminary", "final", "amended", "cancelled"];
+
+// _sort parameters supported by Observation search and the fields they order by
+const OBSERVATION_SORT_FIELDS: Record<string, string> = {
+  date: 'effectiveDateTime',
+  status: 'status',
+  _lastUpdated: 'updatedAt'
+};
+
+export default async function observationRoutes(server: FastifyInstance) {
+
+  // GET /fhir/Observation - Search observations
+  server.get<{ Querystring: ObservationSearchQuery }>(
+    '/Observation',
+    {
+      schema: {
+        tags: ["Observations"],
+        description: "Search observations (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            patient: { type: "string" },
+            encounter: { type: "string" },
+            code: { type: "string" },
+            category: { type: "string" },
+            date: { type: "array", items: { type: "string" } },
+            status: { type: "string" },
+            ...searchResultParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: ObservationSearchQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const query = request.query;
+
+      let where: any = {
+        organizationId: { in: organizationIds }
+      };
+
+      // Patient filtering
+      if (query.patient) {
+        where.patientId = query.patient;
+      }
+
+      // Encounter filtering
+      if (query.encounter) {
+        where.encounterId = query.encounter;
+      }
+
+      // Code filtering (system|code or code)
+      if (query.code) {
+        where.code = {
+          path: ['coding'],
+          array_contains: [parseTokenParam(query.code)]
+        };
+      }
+
+      // Category filtering (e.g. vital-signs, laboratory)
+      if (query.category) {
+        where.category = {
+          array_contains: [{ coding: [parseTokenParam(query.category)] }]
+        };
+      }
+
+      // Effective date range filtering
+      if (query.date) {
+        const dateFilter = parseDateSearchParams(query.date);
+        if (!dateFilter) {
+          return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Invalid date search parameter'));
+        }
+        where.effectiveDateTime = dateFilter;
+      }
+
+      // Status filtering
+      if (query.status) {
+        where.status = query.status;
+      }
+
+      const paging = getSearchPaging(query);
+      const orderBy = getSearchOrderBy(query, OBSERVATION_SORT_FIELDS, { effectiveDateTime: 'desc' });
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${query._sort}`));
+      }
+
+      const [observations, total] = await Promise.all([
+        server.prisma.observation.findMany({
+          where,
+          orderBy,
+          ...paging
+        }),
+        server.prisma.observation.count({ where })
+      ]);
+
+      const entries = observations.map(observation => ({
+        fullUrl: `${request.protocol}://${request.hostname}/fhir/Observation/${observation.id}`,
+        resource: transformObservationFromDB(observation)
+      }));
+
+      const bundle = createSearchBundle(request, entries, total, paging);
+      reply.send(bundle);
+
+    } catch (error) {
+      server.log.error('Search observations error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Observation/:id - Get observation by ID
+  server.get<{ Params: { id: string } }>(
+    '/Observation/:id',
+    {
+      schema: {
+        tags: ["Observations"],
+        description: "Get observation by ID (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const observation = await server.prisma.observation.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!observation) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Observation not found'));
+      }
+
+      reply.send(transformObservationFromDB(observation));
+
+    } catch (error) {
+      server.log.error('Get observation error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /fhir/Observation - Create observation
+  server.post<{ Body: ObservationCreateBody }>(
+    '/Observation',
+    {
+      schema: {
+        tags: ["Observations"],
+        description: "Create observation (FHIR)",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["resourceType", "status", "code", "patientId"],
+          properties: {
+            resourceType: { type: "string", enum: ["Observation"] },
+            status: { type: "string", enum: observationStatuses },
+            category: { type: "array" },
+            code: { type: "object" },
+            patientId: { type: "string" },
+            encounterId: { type: "string" },
+            effectiveDateTime: { type: "string" },
+            valueQuantity: { type: "object" },
+            valueCodeableConcept: { type: "object" },
+            valueString: { type: "string" },
+            interpretation: { type: "array" },
+            note: { type: "array" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: ObservationCreateBody }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const { patientId, encounterId, ...observationData } = request.body;
+
+      // Validate patient access
+      const patient = await server.prisma.patient.findFirst({
+        where: {
+          id: patientId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!patient) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found or no access'));
+      }
+
+      // The encounter must belong to the same patient and organization
+      if (encounterId) {
+        const encounter = await server.prisma.encounter.findFirst({
+          where: {
+            id: encounterId,
+            patientId,
+            organizationId: currentOrganizationId
+          }
+        });
+
+        if (!encounter) {
+          return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Encounter not found or no access'));
+        }
+      }
+
+      const dbObservationData = transformObservationToDB(observationData, patientId, currentOrganizationId!, encounterId);
+
+      const observation = await server.prisma.observation.create({
+        data: dbObservationData
+      });
+
+      reply.code(201).send(transformObservationFromDB(observation));
+
+    } catch (error) {
+      server.log.error('Create observation error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // PUT /fhir/Observation/:id - Update observation
+  server.put<{ Params: { id: string }, Body: FHIRObservation }>(
+    '/Observation/:id',
+    {
+      schema: {
+        tags: ["Observations"],
+        description: "Update observation (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          required: ["resourceType", "status"],
+          properties: {
+            resourceType: { type: "string", enum: ["Observation"] },
+            status: { type: "string", enum: observationStatuses },
+            category: { type: "array" },
+            code: { type: "object" },
+            effectiveDateTime: { type: "string" },
+            valueQuantity: { type: "object" },
+            valueCodeableConcept: { type: "object" },
+            valueString: { type: "string" },
+            interpretation: { type: "array" },
+            note: { type: "array" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: FHIRObservation }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      // Check if observation exists and user has access
+      const existingObservation = await server.prisma.observation.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!existingObservation) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Observation not found'));
+      }
+
+      const updateData: Prisma.ObservationUpdateInput = {
+        status: request.body.status,
+        category: toJsonInput(request.body.category),
+        code: toJsonInput(request.body.code),
+        effectiveDateTime: request.body.effectiveDateTime ? new Date(request.body.effectiveDateTime) : undefined,
+        valueQuantity: toJsonInput(request.body.valueQuantity),
+        valueCodeableConcept: toJsonInput(request.body.valueCodeableConcept),
+        valueString: request.body.valueString,
+        interpretation: toJsonInput(request.body.interpretation),
+        note: request.body.note
+      };
+
+      // Remove undefined values
+      Object.keys(updateData).forEach(key =>
+        updateData[key as keyof typeof updateData] === undefined && delete updateData[key as keyof typeof updateData]
+      );
+
+      const observation = await server.prisma.observation.update({
+        where: { id },
+        data: updateData
+      });
+
+      reply.send(transformObservationFromDB(observation));
+
+    } catch (error) {
+      server.log.error('Update observation error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // DELETE /fhir/Observation/:id - Cancel observation
+  server.delete<{ Params: { id: string } }>(
+    '/Observation/:id',
+    {
+      schema: {
+        tags: ["Observations"],
+        description: "Cancel observation (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const observation = await server.prisma.observation.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!observation) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Observation not found'));
+      }
+
+      await server.prisma.observation.update({
+        where: { id },
+        data: { status: 'cancelled' }
+      });
+
+      reply.code(204).send();
+
+    } catch (error) {
+      server.log.error('Cancel observation error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
@@ -1,13 +1,80 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { Prisma } from "@prisma/client";
 import {
   createOperationOutcome,
   transformOrganizationFromDB,
   transformOrganizationToDB,
   createBundle,
+  createSearchBundle,
+  getSearchPaging,
+  getSearchOrderBy,
+  searchResultParamsSchema,
+  SearchResultParams,
 } from "../utils/fhir.js";
+import {
+  createHistoryBundle,
+  getInstanceHistory,
+  getResourceVersion,
+  getTypeHistory,
+  historyParamsSchema,
+  isVersionConflict,
+  matchesIfMatch,
+  NEXT_VERSION,
+  saveResourceVersion,
+  versionHeaders,
+} from "../utils/history.js";
+import {
+  applyJsonPatch,
+  clearRemovedFields,
+  jsonPatchSchema,
+  JsonPatchOperation,
+  rejectFhirPathPatch,
+  validatePatchedResource,
+} from "../utils/patch.js";
+import { createValidationOutcome, validateResource } from "../utils/validation.js";
 import { FHIROrganization } from "../types/fhir.js";
 
+// _sort parameters supported by Organization search and the fields they order by
+const ORGANIZATION_SORT_FIELDS: Record<string, string> = {
+  name: "name",
+  type: "type",
+  _lastUpdated: "updatedAt"
+};
+
+// Request body schema for creating and updating an organization; patched organizations must pass it too
+const organizationBodySchema = {
+  type: "object",
+  required: ["resourceType", "name"],
+  properties: {
+    resourceType: { type: "string", enum: ["Organization"] },
+    name: { type: "string" },
+    active: { type: "boolean" },
+    type: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string" },
+        },
+      },
+    },
+    telecom: { type: "array" },
+    address: { type: "array" },
+  },
+};
+
 export default async function organizationRoutes(server: FastifyInstance) {
+  // Load an organization the user has access to
+  function findAccessibleOrganization(id: string, organizationIds: string[]) {
+    if (!organizationIds.includes(id)) {
+      return null;
+    }
+
+    return server.prisma.organization.findUnique({
+      where: { id },
+    });
+  }
+
   // GET /api/user/organizations - Get user's accessible organizations
   server.get(
     "/api/user/organizations",
@@ -188,27 +255,45 @@ export default async function organizationRoutes(server: FastifyInstance) {
   );
 
   // GET /fhir/Organization - Search organizations
-  server.get(
+  server.get<{ Querystring: SearchResultParams }>(
     "/fhir/Organization",
     {
       schema: {
         tags: ["Organizations"],
         description: "Search organizations (FHIR)",
         security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            ...searchResultParamsSchema,
+          },
+        },
         response: {
           200: {
             type: "object",
             properties: {
               resourceType: { type: "string" },
+              id: { type: "string" },
+              meta: { type: "object", additionalProperties: true },
               type: { type: "string" },
               total: { type: "number" },
+              link: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    relation: { type: "string" },
+                    url: { type: "string" },
+                  },
+                },
+              },
               entry: {
                 type: "array",
                 items: {
                   type: "object",
                   properties: {
                     fullUrl: { type: "string" },
-                    resource: { type: "object" },
+                    resource: { type: "object", additionalProperties: true },
                   },
                 },
               },
@@ -217,7 +302,7 @@ export default async function organizationRoutes(server: FastifyInstance) {
         },
       },
     },
-    async (request: FastifyRequest, reply: FastifyReply) => {
+    async (request: FastifyRequest<{ Querystring: SearchResultParams }>, reply: FastifyReply) => {
       try {
         server.log.info(`🏥 Organization search request from: ${request.user?.email}`);
         
@@ -243,11 +328,28 @@ export default async function organizationRoutes(server: FastifyInstance) {
 
         server.log.info(`🔍 Searching organizations with IDs: [${organizationIds.join(', ')}]`);
 
-        const organizations = await server.prisma.organization.findMany({
-          where: {
-            id: { in: organizationIds },
-          },
-        });
+        const where = {
+          id: { in: organizationIds },
+        };
+
+        const paging = getSearchPaging(request.query);
+        const orderBy = getSearchOrderBy(request.query, ORGANIZATION_SORT_FIELDS, { name: "asc" });
+        if (!orderBy) {
+          return reply
+            .code(400)
+            .send(
+              createOperationOutcome("error", "invalid", `Unsupported _sort parameter: ${request.query._sort}`),
+            );
+        }
+
+        const [organizations, total] = await Promise.all([
+          server.prisma.organization.findMany({
+            where,
+            orderBy,
+            ...paging,
+          }),
+          server.prisma.organization.count({ where }),
+        ]);
 
         server.log.info(`📊 Found ${organizations.length} organizations`);
 
@@ -256,8 +358,8 @@ export default async function organizationRoutes(server: FastifyInstance) {
           resource: transformOrganizationFromDB(org),
         }));
 
-        const bundle = createBundle("searchset", entries);
-        server.log.info(`✅ Returning bundle with ${entries.length} entries`);
+        const bundle = createSearchBundle(request, entries, total, paging);
+        server.log.info(`✅ Returning bundle with ${entries.length} of ${total} entries`);
         reply.send(bundle);
       } catch (error) {
         server.log.error("Search organizations error:", {
@@ -299,6 +401,7 @@ export default async function organizationRoutes(server: FastifyInstance) {
             properties: {
               resourceType: { type: "string" },
               id: { type: "string" },
+              meta: { type: "object", additionalProperties: true },
               name: { type: "string" },
               active: { type: "boolean" },
             },
@@ -352,7 +455,8 @@ export default async function organizationRoutes(server: FastifyInstance) {
             );
         }
 
-        reply.send(transformOrganizationFromDB(organization));
+        const resource = transformOrganizationFromDB(organization);
+        reply.headers(versionHeaders(resource)).send(resource);
       } catch (error) {
         server.log.error("Get organization error:", {
           error: error.message,
@@ -372,40 +476,170 @@ export default async function organizationRoutes(server: FastifyInstance) {
     },
   );
 
-  // POST /fhir/Organization - Create organization (super admin only)
-  server.post<{ Body: FHIROrganization }>(
-    "/fhir/Organization",
+  // GET /fhir/Organization/_history - Version history of the user's organizations
+  server.get<{ Querystring: SearchResultParams }>(
+    "/fhir/Organization/_history",
     {
       schema: {
         tags: ["Organizations"],
-        description: "Create organization (FHIR) - Super admin only",
+        description: "Organization type history (FHIR)",
         security: [{ bearerAuth: [] }],
-        body: {
+        querystring: {
           type: "object",
-          required: ["resourceType", "name"],
           properties: {
-            resourceType: { type: "string", enum: ["Organization"] },
-            name: { type: "string" },
-            active: { type: "boolean" },
-            type: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  text: { type: "string" },
-                },
-              },
-            },
-            telecom: { type: "array" },
-            address: { type: "array" },
+            ...historyParamsSchema,
           },
         },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Querystring: SearchResultParams }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const { organizationIds } = request.user;
+        const paging = getSearchPaging(request.query);
+        const history = await getTypeHistory(server.prisma, "Organization", organizationIds, {
+          table: "organizations",
+          access: (ids) => Prisma.sql`r.id IN (${Prisma.join(ids)})`,
+          load: async (ids) => (await server.prisma.organization.findMany({ where: { id: { in: ids } } }))
+            .map((org) => transformOrganizationFromDB(org)),
+        }, paging);
+
+        reply.send(createHistoryBundle(request, history.versions, history.total, paging));
+      } catch (error) {
+        server.log.error("Organization history error:", error);
+        reply
+          .code(500)
+          .send(
+            createOperationOutcome("error", "exception", "Internal server error"),
+          );
+      }
+    },
+  );
+
+  // GET /fhir/Organization/:id/_history - All versions of an organization
+  server.get<{ Params: { id: string }; Querystring: SearchResultParams }>(
+    "/fhir/Organization/:id/_history",
+    {
+      schema: {
+        tags: ["Organizations"],
+        description: "Organization instance history (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+          },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            ...historyParamsSchema,
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: SearchResultParams }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const organization = await findAccessibleOrganization(request.params.id, request.user.organizationIds);
+
+        if (!organization) {
+          return reply
+            .code(404)
+            .send(
+              createOperationOutcome("error", "not-found", "Organization not found"),
+            );
+        }
+
+        const paging = getSearchPaging(request.query);
+        const history = await getInstanceHistory(server.prisma, transformOrganizationFromDB(organization), paging);
+
+        reply.send(createHistoryBundle(request, history.versions, history.total, paging));
+      } catch (error) {
+        server.log.error("Organization instance history error:", error);
+        reply
+          .code(500)
+          .send(
+            createOperationOutcome("error", "exception", "Internal server error"),
+          );
+      }
+    },
+  );
+
+  // GET /fhir/Organization/:id/_history/:vid - Read a specific version of an organization
+  server.get<{ Params: { id: string; vid: string } }>(
+    "/fhir/Organization/:id/_history/:vid",
+    {
+      schema: {
+        tags: ["Organizations"],
+        description: "Read organization version (FHIR vread)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            vid: { type: "string" },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: { id: string; vid: string } }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const organization = await findAccessibleOrganization(request.params.id, request.user.organizationIds);
+
+        if (!organization) {
+          return reply
+            .code(404)
+            .send(
+              createOperationOutcome("error", "not-found", "Organization not found"),
+            );
+        }
+
+        const version = await getResourceVersion(server.prisma, transformOrganizationFromDB(organization), request.params.vid);
+
+        if (!version) {
+          return reply
+            .code(404)
+            .send(
+              createOperationOutcome("error", "not-found", `Organization version ${request.params.vid} not found`),
+            );
+        }
+
+        reply.headers(versionHeaders(version)).send(version);
+      } catch (error) {
+        server.log.error("Organization vread error:", error);
+        reply
+          .code(500)
+          .send(
+            createOperationOutcome("error", "exception", "Internal server error"),
+          );
+      }
+    },
+  );
+
+  // POST /fhir/Organization - Create organization (super admin only)
+  server.post<{ Body: FHIROrganization }>(
+    "/fhir/Organization",
+    {
+      schema: {
+        tags: ["Organizations"],
+        description: "Create organization (FHIR) - Super admin only",
+        security: [{ bearerAuth: [] }],
+        body: organizationBodySchema,
         response: {
           201: {
             type: "object",
             properties: {
               resourceType: { type: "string" },
               id: { type: "string" },
+              meta: { type: "object", additionalProperties: true },
               name: { type: "string" },
               active: { type: "boolean" },
             },
@@ -440,13 +674,19 @@ export default async function organizationRoutes(server: FastifyInstance) {
             );
         }
 
+        const issues = validateResource(request.body);
+        if (issues.length > 0) {
+          return reply.code(400).send(createValidationOutcome(issues));
+        }
+
         const organizationData = transformOrganizationToDB(request.body);
 
         const organization = await server.prisma.organization.create({
           data: organizationData,
         });
 
-        reply.code(201).send(transformOrganizationFromDB(organization));
+        const resource = transformOrganizationFromDB(organization);
+        reply.code(201).headers(versionHeaders(resource)).send(resource);
       } catch (error) {
         server.log.error("Create organization error:", {
           error: error.message,
@@ -480,32 +720,14 @@ export default async function organizationRoutes(server: FastifyInstance) {
             id: { type: "string" },
           },
         },
-        body: {
-          type: "object",
-          required: ["resourceType", "name"],
-          properties: {
-            resourceType: { type: "string", enum: ["Organization"] },
-            name: { type: "string" },
-            active: { type: "boolean" },
-            type: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  text: { type: "string" },
-                },
-              },
-            },
-            telecom: { type: "array" },
-            address: { type: "array" },
-          },
-        },
+        body: organizationBodySchema,
         response: {
           200: {
             type: "object",
             properties: {
               resourceType: { type: "string" },
               id: { type: "string" },
+              meta: { type: "object", additionalProperties: true },
               name: { type: "string" },
               active: { type: "boolean" },
             },
@@ -532,7 +754,6 @@ export default async function organizationRoutes(server: FastifyInstance) {
         }
 
         const { id } = request.params;
-        const { organizationIds } = request.user;
 
         // Check if user has admin access to this organization
         const hasAdminAccess = request.user.organizationAccess.some(
@@ -553,15 +774,61 @@ export default async function organizationRoutes(server: FastifyInstance) {
             );
         }
 
-        const organizationData = transformOrganizationToDB(request.body);
+        const issues = validateResource(request.body);
+        if (issues.length > 0) {
+          return reply.code(400).send(createValidationOutcome(issues));
+        }
 
-        const organization = await server.prisma.organization.update({
+        const existingOrganization = await server.prisma.organization.findUnique({
           where: { id },
-          data: organizationData,
         });
 
-        reply.send(transformOrganizationFromDB(organization));
+        if (!existingOrganization) {
+          return reply
+            .code(404)
+            .send(
+              createOperationOutcome(
+                "error",
+                "not-found",
+                "Organization not found",
+              ),
+            );
+        }
+
+        // Reject the update if the client edited an older version
+        if (!matchesIfMatch(request.headers["if-match"], existingOrganization.versionId)) {
+          return reply
+            .code(412)
+            .send(
+              createOperationOutcome(
+                "error",
+                "conflict",
+                `Organization has been modified; current version is ${existingOrganization.versionId}`,
+              ),
+            );
+        }
+
+        const organizationData = transformOrganizationToDB(request.body, existingOrganization.identifier);
+
+        // Keep the replaced version in history and bump versionId
+        const organization = await server.prisma.$transaction(async (tx) => {
+          await saveResourceVersion(tx, transformOrganizationFromDB(existingOrganization), id, request.user.id);
+          return tx.organization.update({
+            where: { id },
+            data: { ...organizationData, ...NEXT_VERSION },
+          });
+        });
+
+        const resource = transformOrganizationFromDB(organization);
+        reply.headers(versionHeaders(resource)).send(resource);
       } catch (error) {
+        if (isVersionConflict(error)) {
+          return reply
+            .code(409)
+            .send(
+              createOperationOutcome("error", "conflict", "Organization was modified by another request"),
+            );
+        }
         server.log.error("Update organization error:", {
           error: error.message,
           stack: error.stack,
@@ -579,4 +846,138 @@ export default async function organizationRoutes(server: FastifyInstance) {
       }
     },
   );
+
+  // PATCH /fhir/Organization/:id - Apply a JSON Patch document to an organization
+  server.patch<{ Params: { id: string }; Body: JsonPatchOperation[] }>(
+    "/fhir/Organization/:id",
+    {
+      preValidation: rejectFhirPathPatch,
+      schema: {
+        tags: ["Organizations"],
+        description: "Patch organization with a JSON Patch document (FHIR). FHIRPath Patch is not supported (415).",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+          },
+        },
+        body: jsonPatchSchema,
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              resourceType: { type: "string" },
+              id: { type: "string" },
+              meta: { type: "object", additionalProperties: true },
+              name: { type: "string" },
+              active: { type: "boolean" },
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Body: JsonPatchOperation[];
+      }>,
+      reply: FastifyReply,
+    ) => {
+      try {
+        const { id } = request.params;
+
+        // Patching needs the same admin access as a full update
+        const hasAdminAccess = request.user.organizationAccess.some(
+          (access) =>
+            access.organizationId === id &&
+            ["admin", "super_admin"].includes(access.role),
+        );
+
+        if (!hasAdminAccess) {
+          return reply
+            .code(403)
+            .send(
+              createOperationOutcome(
+                "error",
+                "forbidden",
+                "Insufficient permissions",
+              ),
+            );
+        }
+
+        const existingOrganization = await server.prisma.organization.findUnique({
+          where: { id },
+        });
+
+        if (!existingOrganization) {
+          return reply
+            .code(404)
+            .send(
+              createOperationOutcome(
+                "error",
+                "not-found",
+                "Organization not found",
+              ),
+            );
+        }
+
+        if (!matchesIfMatch(request.headers["if-match"], existingOrganization.versionId)) {
+          return reply
+            .code(412)
+            .send(
+              createOperationOutcome(
+                "error",
+                "conflict",
+                `Organization has been modified; current version is ${existingOrganization.versionId}`,
+              ),
+            );
+        }
+
+        const current = transformOrganizationFromDB(existingOrganization);
+        const patched = applyJsonPatch(current, request.body);
+        const error = patched.error ?? validatePatchedResource(request, organizationBodySchema, current, patched.result);
+
+        if (error) {
+          return reply
+            .code(422)
+            .send(
+              createOperationOutcome("error", "processing", error),
+            );
+        }
+
+        const issues = validateResource(patched.result);
+        if (issues.length > 0) {
+          return reply.code(422).send(createValidationOutcome(issues));
+        }
+
+        const organizationData = clearRemovedFields(transformOrganizationToDB(patched.result as FHIROrganization, existingOrganization.identifier));
+
+        const organization = await server.prisma.$transaction(async (tx) => {
+          await saveResourceVersion(tx, current, id, request.user.id);
+          return tx.organization.update({
+            where: { id },
+            data: { ...organizationData, ...NEXT_VERSION },
+          });
+        });
+
+        const resource = transformOrganizationFromDB(organization);
+        reply.headers(versionHeaders(resource)).send(resource);
+      } catch (error) {
+        if (isVersionConflict(error)) {
+          return reply
+            .code(409)
+            .send(
+              createOperationOutcome("error", "conflict", "Organization was modified by another request"),
+            );
+        }
+        server.log.error("Patch organization error:", error);
+        reply
+          .code(500)
+          .send(
+            createOperationOutcome("error", "exception", "Internal server error"),
+          );
+      }
+    },
+  );
 }
\ No newline at end of file
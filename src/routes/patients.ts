@@ -1,11 +1,173 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { createOperationOutcome, transformPatientFromDB, transformPatientToDB, createBundle } from '../utils/fhir.js';
+import { Prisma } from '@prisma/client';
+import { createOperationOutcome, parseDateSearchParams, transformPatientFromDB, transformPatientToDB, createSearchBundle, getSearchPaging, searchResultParamsSchema, SearchResultParams } from '../utils/fhir.js';
+import { addressCityCondition, dateRangeCondition, getSqlOrderBy, getStringParam, humanNameCondition, humanNameSortColumns, orderByIds, parseSearchCriteria, searchIds, splitSearchValues, stringSearchParamsSchema, tokenArrayCondition } from '../utils/search.js';
+import { createHistoryBundle, getInstanceHistory, getResourceVersion, getTypeHistory, historyParamsSchema, isVersionConflict, matchesIfMatch, NEXT_VERSION, saveResourceVersion, versionHeaders } from '../utils/history.js';
+import { applyJsonPatch, clearRemovedFields, jsonPatchSchema, JsonPatchOperation, rejectFhirPathPatch, validatePatchedResource } from '../utils/patch.js';
+import { createValidationOutcome, validateResource } from '../utils/validation.js';
 import { FHIRPatient } from '../types/fhir.js';
 
+type PatientSearchQuery = {
+  organization?: string, name?: string, family?: string, given?: string, identifier?: string,
+  telecom?: string, gender?: string, 'address-city'?: string, birthdate?: string[], [modified: string]: any
+} & SearchResultParams;
+
+// _sort parameters supported by Patient search
+const PATIENT_SORT_COLUMNS = {
+  ...humanNameSortColumns(Prisma.sql`r.name`),
+  birthdate: Prisma.sql`r."birthDate"`,
+  gender: Prisma.sql`r.gender`,
+  _lastUpdated: Prisma.sql`r."updatedAt"`
+};
+
+// Search parameters accepted by Patient search and by conditional create/update criteria
+const patientSearchParamsSchema = {
+  organization: { type: "string" },
+  ...stringSearchParamsSchema(["name", "family", "given", "address-city"]),
+  identifier: { type: "string" },
+  telecom: { type: "string" },
+  gender: { type: "string" },
+  birthdate: { type: "array", items: { type: "string" } }
+};
+
+// SQL condition for patients (aliased r) active in one of the given organizations
+function patientAccessCondition(organizationIds: string[]): Prisma.Sql {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM patient_organizations po
+    WHERE po."patientId" = r.id
+      AND po."organizationId" IN (${Prisma.join(organizationIds)})
+      AND po.status = 'active'
+  )`;
+}
+
+// SQL conditions for a Patient search within the given organizations
+function patientSearchConditions(query: Record<string, any>, organizationIds: string[]): { conditions?: Prisma.Sql[]; error?: string } {
+  // All filters run in PostgreSQL; JSONB columns are searched with jsonb_array_elements
+  const conditions: Prisma.Sql[] = [patientAccessCondition(organizationIds)];
+
+  for (const parts of ['name', 'family', 'given'] as const) {
+    const param = getStringParam(query, parts);
+    if (param) {
+      conditions.push(humanNameCondition(Prisma.sql`r.name`, param.value, param.modifier, parts));
+    }
+  }
+
+  const city = getStringParam(query, 'address-city');
+  if (city) {
+    conditions.push(addressCityCondition(Prisma.sql`r.address`, city.value, city.modifier));
+  }
+
+  if (query.identifier) {
+    conditions.push(tokenArrayCondition(Prisma.sql`r.identifier`, query.identifier));
+  }
+
+  if (query.telecom) {
+    conditions.push(tokenArrayCondition(Prisma.sql`r.telecom`, query.telecom));
+  }
+
+  if (query.gender) {
+    conditions.push(Prisma.sql`r.gender IN (${Prisma.join(splitSearchValues(query.gender))})`);
+  }
+
+  // Birth date range filtering
+  if (query.birthdate) {
+    const dateFilter = parseDateSearchParams(query.birthdate);
+    if (!dateFilter) {
+      return { error: 'Invalid birthdate search parameter' };
+    }
+    conditions.push(dateRangeCondition(Prisma.sql`r."birthDate"`, dateFilter));
+  }
+
+  return { conditions };
+}
+
+// Request body schema for creating and updating a patient; patched patients must pass it too
+const patientBodySchema = {
+  type: "object",
+  required: ["resourceType", "name"],
+  properties: {
+    resourceType: { type: "string", enum: ["Patient"] },
+    name: { type: "array" },
+    active: { type: "boolean" },
+    identifier: { type: "array" },
+    telecom: { type: "array" },
+    gender: { type: "string" },
+    birthDate: { type: "string" },
+    address: { type: "array" }
+  }
+};
+
 export default async function patientRoutes(server: FastifyInstance) {
 
+  // Load a patient the user can access through one of their organizations
+  function findAccessiblePatient(id: string, organizationIds: string[]) {
+    return server.prisma.patient.findFirst({
+      where: {
+        id,
+        organizations: {
+          some: {
+            organizationId: { in: organizationIds },
+            status: 'active'
+          }
+        }
+      }
+    });
+  }
+
+  // Ids of up to two patients matching conditional criteria (a query string)
+  async function findMatchingPatients(criteria: string, organizationIds: string[]): Promise<{ ids: string[]; error?: string }> {
+    const parsed = parseSearchCriteria(criteria, patientSearchParamsSchema);
+    if (parsed.error) {
+      return { ids: [], error: parsed.error };
+    }
+
+    const searchOrganizationIds = parsed.query!.organization
+      ? organizationIds.filter(id => id === parsed.query!.organization)
+      : organizationIds;
+    if (searchOrganizationIds.length === 0) {
+      return { ids: [] };
+    }
+
+    const search = patientSearchConditions(parsed.query!, searchOrganizationIds);
+    if (search.error) {
+      return { ids: [], error: search.error };
+    }
+
+    const { ids } = await searchIds(server.prisma, 'patients', search.conditions!, Prisma.sql`r.id`, { skip: 0, take: 2 });
+    return { ids };
+  }
+
+  // Create a patient and assign it to the user's current organization
+  async function createPatient(body: FHIRPatient, organizationId: string) {
+    const patient = await server.prisma.patient.create({
+      data: transformPatientToDB(body)
+    });
+
+    await server.prisma.patientOrganization.create({
+      data: {
+        patientId: patient.id,
+        organizationId,
+        relationship: 'primary',
+        primaryCare: true
+      }
+    });
+
+    return patient;
+  }
+
+  // Save new data as the patient's next version, keeping the replaced version in history
+  function updatePatient(existingPatient: any, patientData: any, organizationId?: string, userId?: string) {
+    return server.prisma.$transaction(async tx => {
+      await saveResourceVersion(tx, transformPatientFromDB(existingPatient), organizationId, userId);
+      return tx.patient.update({
+        where: { id: existingPatient.id },
+        data: { ...patientData, ...NEXT_VERSION }
+      });
+    });
+  }
+
   // GET /fhir/Patient - Search patients across user's organizations
-  server.get<{ Querystring: { organization?: string, name?: string, birthdate?: string } }>(
+  server.get<{ Querystring: PatientSearchQuery }>(
     '/Patient',
     {
       schema: {
@@ -15,14 +177,13 @@ export default async function patientRoutes(server: FastifyInstance) {
         querystring: {
           type: "object",
           properties: {
-            organization: { type: "string" },
-            name: { type: "string" },
-            birthdate: { type: "string" }
+            ...patientSearchParamsSchema,
+            ...searchResultParamsSchema
           }
         }
       }
     },
-    async (request: FastifyRequest<{ Querystring: { organization?: string, name?: string, birthdate?: string } }>, reply: FastifyReply) => {
+    async (request: FastifyRequest<{ Querystring: PatientSearchQuery }>, reply: FastifyReply) => {
     try {
       server.log.info('Patient search request', { 
         user: request.user.email, 
@@ -30,28 +191,31 @@ export default async function patientRoutes(server: FastifyInstance) {
         query: request.query 
       });
 
-      const { organizationIds, currentOrganizationId } = request.user;
+      const { organizationIds } = request.user;
       const query = request.query;
+      const paging = getSearchPaging(query);
+      const orderBy = getSqlOrderBy(query, PATIENT_SORT_COLUMNS, Prisma.sql`r."createdAt" DESC, r.id`);
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${query._sort}`));
+      }
 
-      // Simple approach - get all patients for user's organizations first
-      let where: any = {
-        organizations: {
-          some: {
-            organizationId: { in: organizationIds },
-            status: 'active'
-          }
-        }
-      };
+      const searchOrganizationIds = query.organization
+        ? organizationIds.filter(id => id === query.organization)
+        : organizationIds;
+
+      if (searchOrganizationIds.length === 0) {
+        return reply.send(createSearchBundle(request, [], 0, paging));
+      }
 
-      // Birth date filtering (simple date match)
-      if (query.birthdate) {
-        where.birthDate = new Date(query.birthdate);
+      const search = patientSearchConditions(query, searchOrganizationIds);
+      if (search.error) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', search.error));
       }
 
-      server.log.info('Patient query where clause', { where });
+      const { ids, total } = await searchIds(server.prisma, 'patients', search.conditions!, orderBy, paging);
 
       const patients = await server.prisma.patient.findMany({
-        where,
+        where: { id: { in: ids } },
         include: {
           organizations: {
             include: {
@@ -63,26 +227,14 @@ export default async function patientRoutes(server: FastifyInstance) {
         }
       });
 
-      server.log.info('Found patients', { count: patients.length });
+      server.log.info('Found patients', { count: patients.length, total });
 
-      // Filter by name in memory if needed (to avoid complex JSON queries)
-      let filteredPatients = patients;
-      if (query.name) {
-        filteredPatients = patients.filter(patient => {
-          const names = patient.name as any[];
-          return names.some(name => 
-            name.family?.toLowerCase().includes(query.name!.toLowerCase()) ||
-            name.given?.some((given: string) => given.toLowerCase().includes(query.name!.toLowerCase()))
-          );
-        });
-      }
-
-      const entries = filteredPatients.map(patient => ({
+      const entries = orderByIds(patients, ids).map(patient => ({
         fullUrl: `${request.protocol}://${request.hostname}/fhir/Patient/${patient.id}`,
         resource: transformPatientFromDB(patient, { includeOrganizations: true })
       }));
 
-      const bundle = createBundle("searchset", entries);
+      const bundle = createSearchBundle(request, entries, total, paging);
       reply.send(bundle);
 
     } catch (error) {
@@ -137,7 +289,8 @@ export default async function patientRoutes(server: FastifyInstance) {
         return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found'));
       }
 
-      reply.send(transformPatientFromDB(patient, { includeOrganizations: true }));
+      const resource = transformPatientFromDB(patient, { includeOrganizations: true });
+      reply.headers(versionHeaders(resource)).send(resource);
 
     } catch (error) {
       server.log.error('Get patient error:', error);
@@ -145,50 +298,167 @@ export default async function patientRoutes(server: FastifyInstance) {
     }
   });
 
+  // GET /fhir/Patient/_history - Version history of all patients in the user's organizations
+  server.get<{ Querystring: SearchResultParams }>(
+    '/Patient/_history',
+    {
+      schema: {
+        tags: ["Patients"],
+        description: "Patient type history (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            ...historyParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: SearchResultParams }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const paging = getSearchPaging(request.query);
+
+      const history = await getTypeHistory(server.prisma, 'Patient', organizationIds, {
+        table: 'patients',
+        access: patientAccessCondition,
+        load: async ids => (await server.prisma.patient.findMany({ where: { id: { in: ids } } }))
+          .map(patient => transformPatientFromDB(patient))
+      }, paging);
+
+      reply.send(createHistoryBundle(request, history.versions, history.total, paging));
+
+    } catch (error) {
+      server.log.error('Patient history error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Patient/:id/_history - All versions of a patient
+  server.get<{ Params: { id: string }, Querystring: SearchResultParams }>(
+    '/Patient/:id/_history',
+    {
+      schema: {
+        tags: ["Patients"],
+        description: "Patient instance history (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            ...historyParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Querystring: SearchResultParams }>, reply: FastifyReply) => {
+    try {
+      const patient = await findAccessiblePatient(request.params.id, request.user.organizationIds);
+
+      if (!patient) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found'));
+      }
+
+      const paging = getSearchPaging(request.query);
+      const history = await getInstanceHistory(server.prisma, transformPatientFromDB(patient), paging);
+
+      reply.send(createHistoryBundle(request, history.versions, history.total, paging));
+
+    } catch (error) {
+      server.log.error('Patient instance history error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Patient/:id/_history/:vid - Read a specific version of a patient
+  server.get<{ Params: { id: string, vid: string } }>(
+    '/Patient/:id/_history/:vid',
+    {
+      schema: {
+        tags: ["Patients"],
+        description: "Read patient version (FHIR vread)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            vid: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string, vid: string } }>, reply: FastifyReply) => {
+    try {
+      const patient = await findAccessiblePatient(request.params.id, request.user.organizationIds);
+
+      if (!patient) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found'));
+      }
+
+      const version = await getResourceVersion(server.prisma, transformPatientFromDB(patient), request.params.vid);
+
+      if (!version) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', `Patient version ${request.params.vid} not found`));
+      }
+
+      reply.headers(versionHeaders(version)).send(version);
+
+    } catch (error) {
+      server.log.error('Patient vread error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
   // POST /fhir/Patient - Create patient with organization assignment
   server.post<{ Body: FHIRPatient }>(
     '/Patient',
     {
       schema: {
         tags: ["Patients"],
-        description: "Create patient (FHIR)",
+        description: "Create patient (FHIR). With If-None-Exist, an existing patient matching the criteria is returned instead.",
         security: [{ bearerAuth: [] }],
-        body: {
+        headers: {
           type: "object",
-          required: ["resourceType", "name"],
           properties: {
-            resourceType: { type: "string", enum: ["Patient"] },
-            name: { type: "array" },
-            active: { type: "boolean" },
-            identifier: { type: "array" },
-            telecom: { type: "array" },
-            gender: { type: "string" },
-            birthDate: { type: "string" },
-            address: { type: "array" }
+            "if-none-exist": { type: "string" }
           }
-        }
+        },
+        body: patientBodySchema
       }
     },
     async (request: FastifyRequest<{ Body: FHIRPatient }>, reply: FastifyReply) => {
     try {
-      const { currentOrganizationId } = request.user;
-      const patientData = transformPatientToDB(request.body);
+      const issues = validateResource(request.body);
+      if (issues.length > 0) {
+        return reply.code(400).send(createValidationOutcome(issues));
+      }
 
-      const patient = await server.prisma.patient.create({
-        data: patientData
-      });
+      const { organizationIds, currentOrganizationId } = request.user;
 
-      // Assign to current organization
-      await server.prisma.patientOrganization.create({
-        data: {
-          patientId: patient.id,
-          organizationId: currentOrganizationId!,
-          relationship: 'primary',
-          primaryCare: true
+      // Conditional create: don't create a duplicate of a patient we already hold
+      const ifNoneExist = request.headers['if-none-exist'] as string | undefined;
+      if (ifNoneExist) {
+        const matches = await findMatchingPatients(ifNoneExist, organizationIds);
+        if (matches.error) {
+          return reply.code(400).send(createOperationOutcome('error', 'invalid', matches.error));
         }
-      });
+        if (matches.ids.length > 1) {
+          return reply.code(412).send(createOperationOutcome('error', 'multiple-matches', 'If-None-Exist criteria match more than one patient'));
+        }
+        const existingPatient = matches.ids.length === 1 ? await findAccessiblePatient(matches.ids[0], organizationIds) : null;
+        if (existingPatient) {
+          const resource = transformPatientFromDB(existingPatient);
+          return reply.headers(versionHeaders(resource)).send(resource);
+        }
+      }
 
-      reply.code(201).send(transformPatientFromDB(patient));
+      const resource = transformPatientFromDB(await createPatient(request.body, currentOrganizationId!));
+      reply.code(201).headers(versionHeaders(resource)).send(resource);
 
     } catch (error) {
       server.log.error('Create patient error:', error);
@@ -196,6 +466,71 @@ export default async function patientRoutes(server: FastifyInstance) {
     }
   });
 
+  // PUT /fhir/Patient?identifier=system|value - Conditional update: update the single
+  // patient matching the criteria, or create one when none matches. There is no
+  // conditional delete: patients are shared between organizations and have no
+  // delete interaction, so the CapabilityStatement reports it as not supported.
+  server.put<{ Querystring: Record<string, any>, Body: FHIRPatient }>(
+    '/Patient',
+    {
+      schema: {
+        tags: ["Patients"],
+        description: "Conditional update of a patient found by search criteria (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: patientSearchParamsSchema
+        },
+        body: patientBodySchema
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: Record<string, any>, Body: FHIRPatient }>, reply: FastifyReply) => {
+    try {
+      const issues = validateResource(request.body);
+      if (issues.length > 0) {
+        return reply.code(400).send(createValidationOutcome(issues));
+      }
+
+      const { organizationIds, currentOrganizationId } = request.user;
+
+      const matches = await findMatchingPatients(request.url, organizationIds);
+      if (matches.error) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', matches.error));
+      }
+      if (matches.ids.length > 1) {
+        return reply.code(412).send(createOperationOutcome('error', 'multiple-matches', 'Conditional update criteria match more than one patient'));
+      }
+
+      if (matches.ids.length === 0) {
+        const resource = transformPatientFromDB(await createPatient(request.body, currentOrganizationId!));
+        return reply.code(201).headers(versionHeaders(resource)).send(resource);
+      }
+
+      const existingPatient = await findAccessiblePatient(matches.ids[0], organizationIds);
+      if (!existingPatient) {
+        return reply.code(412).send(createOperationOutcome('error', 'conflict', 'The patient matched by the conditional update is no longer accessible'));
+      }
+
+      if (request.body.id && request.body.id !== existingPatient.id) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Resource id does not match the patient found by the conditional update'));
+      }
+
+      if (!matchesIfMatch(request.headers['if-match'], existingPatient.versionId)) {
+        return reply.code(412).send(createOperationOutcome('error', 'conflict', `Patient has been modified; current version is ${existingPatient.versionId}`));
+      }
+
+      const resource = transformPatientFromDB(await updatePatient(existingPatient, transformPatientToDB(request.body), request.user.currentOrganizationId, request.user.id));
+      reply.headers(versionHeaders(resource)).send(resource);
+
+    } catch (error) {
+      if (isVersionConflict(error)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Patient was modified by another request'));
+      }
+      server.log.error('Conditional update patient error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
   // PUT /fhir/Patient/:id - Update patient
   server.put<{ Params: { id: string }, Body: FHIRPatient }>(
     '/Patient/:id',
@@ -210,59 +545,102 @@ export default async function patientRoutes(server: FastifyInstance) {
             id: { type: "string" }
           }
         },
-        body: {
-          type: "object",
-          required: ["resourceType", "name"],
-          properties: {
-            resourceType: { type: "string", enum: ["Patient"] },
-            name: { type: "array" },
-            active: { type: "boolean" },
-            identifier: { type: "array" },
-            telecom: { type: "array" },
-            gender: { type: "string" },
-            birthDate: { type: "string" },
-            address: { type: "array" }
-          }
-        }
+        body: patientBodySchema
       }
     },
     async (request: FastifyRequest<{ Params: { id: string }, Body: FHIRPatient }>, reply: FastifyReply) => {
     try {
+      const issues = validateResource(request.body);
+      if (issues.length > 0) {
+        return reply.code(400).send(createValidationOutcome(issues));
+      }
+
       const { id } = request.params;
       const { organizationIds } = request.user;
 
       // Check if patient exists and user has access
-      const existingPatient = await server.prisma.patient.findFirst({
-        where: {
-          id,
-          organizations: {
-            some: {
-              organizationId: { in: organizationIds },
-              status: 'active'
-            }
-          }
-        }
-      });
+      const existingPatient = await findAccessiblePatient(id, organizationIds);
 
       if (!existingPatient) {
         return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found'));
       }
 
-      const patientData = transformPatientToDB(request.body);
-      
-      const patient = await server.prisma.patient.update({
-        where: { id },
-        data: patientData
-      });
+      // Reject the update if the client edited an older version
+      if (!matchesIfMatch(request.headers['if-match'], existingPatient.versionId)) {
+        return reply.code(412).send(createOperationOutcome('error', 'conflict', `Patient has been modified; current version is ${existingPatient.versionId}`));
+      }
 
-      reply.send(transformPatientFromDB(patient));
+      const resource = transformPatientFromDB(await updatePatient(existingPatient, transformPatientToDB(request.body), request.user.currentOrganizationId, request.user.id));
+      reply.headers(versionHeaders(resource)).send(resource);
 
     } catch (error) {
+      if (isVersionConflict(error)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Patient was modified by another request'));
+      }
       server.log.error('Update patient error:', error);
       reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
     }
   });
 
+  // PATCH /fhir/Patient/:id - Apply a JSON Patch document to a patient
+  server.patch<{ Params: { id: string }, Body: JsonPatchOperation[] }>(
+    '/Patient/:id',
+    {
+      preValidation: rejectFhirPathPatch,
+      schema: {
+        tags: ["Patients"],
+        description: "Patch patient with a JSON Patch document (FHIR). FHIRPath Patch is not supported (415).",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: jsonPatchSchema
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: JsonPatchOperation[] }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+
+      const existingPatient = await findAccessiblePatient(request.params.id, organizationIds);
+
+      if (!existingPatient) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found'));
+      }
+
+      if (!matchesIfMatch(request.headers['if-match'], existingPatient.versionId)) {
+        return reply.code(412).send(createOperationOutcome('error', 'conflict', `Patient has been modified; current version is ${existingPatient.versionId}`));
+      }
+
+      const current = transformPatientFromDB(existingPatient);
+      const patched = applyJsonPatch(current, request.body);
+      const error = patched.error ?? validatePatchedResource(request, patientBodySchema, current, patched.result);
+
+      if (error) {
+        return reply.code(422).send(createOperationOutcome('error', 'processing', error));
+      }
+
+      const issues = validateResource(patched.result);
+      if (issues.length > 0) {
+        return reply.code(422).send(createValidationOutcome(issues));
+      }
+
+      const patientData = clearRemovedFields(transformPatientToDB(patched.result as FHIRPatient), ['maritalStatus']);
+
+      const resource = transformPatientFromDB(await updatePatient(existingPatient, patientData, request.user.currentOrganizationId, request.user.id));
+      reply.headers(versionHeaders(resource)).send(resource);
+
+    } catch (error) {
+      if (isVersionConflict(error)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Patient was modified by another request'));
+      }
+      server.log.error('Patch patient error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
   // POST /fhir/Patient/:id/assign-organization - Assign patient to additional organization
   server.post<{ Params: { id: string }, Body: { organizationId: string, relationship?: string } }>(
     '/Patient/:id/assign-organization',
@@ -1,11 +1,113 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { createOperationOutcome, transformPractitionerFromDB, transformPractitionerToDB, createBundle } from '../utils/fhir.js';
+import { Prisma } from '@prisma/client';
+import { createOperationOutcome, transformPractitionerFromDB, transformPractitionerToDB, createSearchBundle, getSearchPaging, searchResultParamsSchema, SearchResultParams } from '../utils/fhir.js';
+import { addressCityCondition, codeableConceptArrayCondition, getSqlOrderBy, getStringParam, humanNameCondition, humanNameSortColumns, orderByIds, parseSearchCriteria, searchIds, splitSearchValues, stringSearchParamsSchema, tokenArrayCondition } from '../utils/search.js';
+import { createHistoryBundle, getInstanceHistory, getResourceVersion, getTypeHistory, historyParamsSchema, isVersionConflict, matchesIfMatch, NEXT_VERSION, saveResourceVersion, versionHeaders } from '../utils/history.js';
+import { applyJsonPatch, clearRemovedFields, jsonPatchSchema, JsonPatchOperation, rejectFhirPathPatch, validatePatchedResource } from '../utils/patch.js';
+import { createValidationOutcome, validateResource } from '../utils/validation.js';
 import { FHIRPractitioner } from '../types/fhir.js';
 
+type PractitionerSearchQuery = {
+  organization?: string, name?: string, family?: string, given?: string, identifier?: string,
+  telecom?: string, gender?: string, 'address-city'?: string, specialty?: string, [modified: string]: any
+} & SearchResultParams;
+
+// _sort parameters supported by Practitioner search
+const PRACTITIONER_SORT_COLUMNS = {
+  ...humanNameSortColumns(Prisma.sql`r.name`),
+  gender: Prisma.sql`r.gender`,
+  _lastUpdated: Prisma.sql`r."updatedAt"`
+};
+
+// Search parameters accepted by Practitioner search and by If-None-Exist criteria
+const practitionerSearchParamsSchema = {
+  organization: { type: "string" },
+  ...stringSearchParamsSchema(["name", "family", "given", "address-city"]),
+  identifier: { type: "string" },
+  telecom: { type: "string" },
+  gender: { type: "string" },
+  specialty: { type: "string" }
+};
+
+// SQL condition for practitioners (aliased r) active in one of the given organizations
+function practitionerAccessCondition(organizationIds: (string | undefined)[]): Prisma.Sql {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM practitioner_organizations po
+    WHERE po."practitionerId" = r.id
+      AND po."organizationId" IN (${Prisma.join(organizationIds)})
+      AND po.status = 'active'
+  )`;
+}
+
+// SQL conditions for a Practitioner search within one organization
+function practitionerSearchConditions(query: Record<string, any>, organizationIds: (string | undefined)[]): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = [practitionerAccessCondition(organizationIds)];
+
+  for (const parts of ['name', 'family', 'given'] as const) {
+    const param = getStringParam(query, parts);
+    if (param) {
+      conditions.push(humanNameCondition(Prisma.sql`r.name`, param.value, param.modifier, parts));
+    }
+  }
+
+  const city = getStringParam(query, 'address-city');
+  if (city) {
+    conditions.push(addressCityCondition(Prisma.sql`r.address`, city.value, city.modifier));
+  }
+
+  if (query.identifier) {
+    conditions.push(tokenArrayCondition(Prisma.sql`r.identifier`, query.identifier));
+  }
+
+  if (query.telecom) {
+    conditions.push(tokenArrayCondition(Prisma.sql`r.telecom`, query.telecom));
+  }
+
+  if (query.gender) {
+    conditions.push(Prisma.sql`r.gender IN (${Prisma.join(splitSearchValues(query.gender))})`);
+  }
+
+  if (query.specialty) {
+    conditions.push(codeableConceptArrayCondition(Prisma.sql`r.specialty`, query.specialty));
+  }
+
+  return conditions;
+}
+
+// Request body schema for creating and updating a practitioner; patched practitioners must pass it too
+const practitionerBodySchema = {
+  type: "object",
+  required: ["resourceType", "name"],
+  properties: {
+    resourceType: { type: "string", enum: ["Practitioner"] },
+    name: { type: "array" },
+    active: { type: "boolean" },
+    identifier: { type: "array" },
+    telecom: { type: "array" },
+    gender: { type: "string" },
+    birthDate: { type: "string" }
+  }
+};
+
 export default async function practitionerRoutes(server: FastifyInstance) {
 
+  // Load a practitioner the user can access through one of their organizations
+  function findAccessiblePractitioner(id: string, organizationIds: string[]) {
+    return server.prisma.practitioner.findFirst({
+      where: {
+        id,
+        organizations: {
+          some: {
+            organizationId: { in: organizationIds },
+            status: 'active'
+          }
+        }
+      }
+    });
+  }
+
   // GET /fhir/Practitioner - Search practitioners
-  server.get<{ Querystring: { organization?: string, name?: string, specialty?: string } }>(
+  server.get<{ Querystring: PractitionerSearchQuery }>(
     '/Practitioner', 
     {
       schema: {
@@ -15,14 +117,13 @@ export default async function practitionerRoutes(server: FastifyInstance) {
         querystring: {
           type: "object",
           properties: {
-            organization: { type: "string" },
-            name: { type: "string" },
-            specialty: { type: "string" }
+            ...practitionerSearchParamsSchema,
+            ...searchResultParamsSchema
           }
         }
       }
     },
-    async (request: FastifyRequest<{ Querystring: { organization?: string, name?: string, specialty?: string } }>, reply: FastifyReply) => {
+    async (request: FastifyRequest<{ Querystring: PractitionerSearchQuery }>, reply: FastifyReply) => {
     try {
       server.log.info('Practitioner search request', { 
         user: request.user.email, 
@@ -30,22 +131,20 @@ export default async function practitionerRoutes(server: FastifyInstance) {
         query: request.query 
       });
 
-      const { organizationIds, currentOrganizationId } = request.user;
+      const { currentOrganizationId } = request.user;
       const query = request.query;
+      const paging = getSearchPaging(query);
+      const orderBy = getSqlOrderBy(query, PRACTITIONER_SORT_COLUMNS, Prisma.sql`r."createdAt" DESC, r.id`);
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${query._sort}`));
+      }
 
-      let where: any = {
-        organizations: {
-          some: {
-            organizationId: query.organization || currentOrganizationId,
-            status: 'active'
-          }
-        }
-      };
+      const conditions = practitionerSearchConditions(query, [query.organization || currentOrganizationId]);
 
-      server.log.info('Practitioner query where clause', { where });
+      const { ids, total } = await searchIds(server.prisma, 'practitioners', conditions, orderBy, paging);
 
       const practitioners = await server.prisma.practitioner.findMany({
-        where,
+        where: { id: { in: ids } },
         include: {
           organizations: {
             include: {
@@ -57,39 +156,14 @@ export default async function practitionerRoutes(server: FastifyInstance) {
         }
       });
 
-      server.log.info('Found practitioners', { count: practitioners.length });
-
-      // Filter by name in memory if needed
-      let filteredPractitioners = practitioners;
-      if (query.name) {
-        filteredPractitioners = practitioners.filter(practitioner => {
-          const names = practitioner.name as any[];
-          return names.some(name => 
-            name.family?.toLowerCase().includes(query.name!.toLowerCase()) ||
-            name.given?.some((given: string) => given.toLowerCase().includes(query.name!.toLowerCase()))
-          );
-        });
-      }
-
-      // Filter by specialty in memory if needed
-      if (query.specialty) {
-        filteredPractitioners = filteredPractitioners.filter(practitioner => {
-          const specialties = practitioner.specialty as any[];
-          return specialties?.some(spec => 
-            spec.coding?.some((coding: any) => 
-              coding.code?.toLowerCase().includes(query.specialty!.toLowerCase()) ||
-              coding.display?.toLowerCase().includes(query.specialty!.toLowerCase())
-            )
-          );
-        });
-      }
+      server.log.info('Found practitioners', { count: practitioners.length, total });
 
-      const entries = filteredPractitioners.map(practitioner => ({
+      const entries = orderByIds(practitioners, ids).map(practitioner => ({
         fullUrl: `${request.protocol}://${request.hostname}/fhir/Practitioner/${practitioner.id}`,
         resource: transformPractitionerFromDB(practitioner, { includeOrganizations: true })
       }));
 
-      const bundle = createBundle("searchset", entries);
+      const bundle = createSearchBundle(request, entries, total, paging);
       reply.send(bundle);
 
     } catch (error) {
@@ -144,7 +218,8 @@ export default async function practitionerRoutes(server: FastifyInstance) {
         return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Practitioner not found'));
       }
 
-      reply.send(transformPractitionerFromDB(practitioner, { includeOrganizations: true }));
+      const resource = transformPractitionerFromDB(practitioner, { includeOrganizations: true });
+      reply.headers(versionHeaders(resource)).send(resource);
 
     } catch (error) {
       server.log.error('Get practitioner error:', error);
@@ -152,32 +227,175 @@ export default async function practitionerRoutes(server: FastifyInstance) {
     }
   });
 
+  // GET /fhir/Practitioner/_history - Version history of all practitioners in the user's organizations
+  server.get<{ Querystring: SearchResultParams }>(
+    '/Practitioner/_history',
+    {
+      schema: {
+        tags: ["Practitioners"],
+        description: "Practitioner type history (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            ...historyParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: SearchResultParams }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const paging = getSearchPaging(request.query);
+
+      const history = await getTypeHistory(server.prisma, 'Practitioner', organizationIds, {
+        table: 'practitioners',
+        access: practitionerAccessCondition,
+        load: async ids => (await server.prisma.practitioner.findMany({ where: { id: { in: ids } } }))
+          .map(practitioner => transformPractitionerFromDB(practitioner))
+      }, paging);
+
+      reply.send(createHistoryBundle(request, history.versions, history.total, paging));
+
+    } catch (error) {
+      server.log.error('Practitioner history error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Practitioner/:id/_history - All versions of a practitioner
+  server.get<{ Params: { id: string }, Querystring: SearchResultParams }>(
+    '/Practitioner/:id/_history',
+    {
+      schema: {
+        tags: ["Practitioners"],
+        description: "Practitioner instance history (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            ...historyParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Querystring: SearchResultParams }>, reply: FastifyReply) => {
+    try {
+      const practitioner = await findAccessiblePractitioner(request.params.id, request.user.organizationIds);
+
+      if (!practitioner) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Practitioner not found'));
+      }
+
+      const paging = getSearchPaging(request.query);
+      const history = await getInstanceHistory(server.prisma, transformPractitionerFromDB(practitioner), paging);
+
+      reply.send(createHistoryBundle(request, history.versions, history.total, paging));
+
+    } catch (error) {
+      server.log.error('Practitioner instance history error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/Practitioner/:id/_history/:vid - Read a specific version of a practitioner
+  server.get<{ Params: { id: string, vid: string } }>(
+    '/Practitioner/:id/_history/:vid',
+    {
+      schema: {
+        tags: ["Practitioners"],
+        description: "Read practitioner version (FHIR vread)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            vid: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string, vid: string } }>, reply: FastifyReply) => {
+    try {
+      const practitioner = await findAccessiblePractitioner(request.params.id, request.user.organizationIds);
+
+      if (!practitioner) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Practitioner not found'));
+      }
+
+      const version = await getResourceVersion(server.prisma, transformPractitionerFromDB(practitioner), request.params.vid);
+
+      if (!version) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', `Practitioner version ${request.params.vid} not found`));
+      }
+
+      reply.headers(versionHeaders(version)).send(version);
+
+    } catch (error) {
+      server.log.error('Practitioner vread error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
   // POST /fhir/Practitioner - Create practitioner
   server.post<{ Body: FHIRPractitioner }>(
     '/Practitioner',
     {
       schema: {
         tags: ["Practitioners"],
-        description: "Create practitioner (FHIR)",
+        description: "Create practitioner (FHIR). With If-None-Exist, an existing practitioner matching the criteria is returned instead.",
         security: [{ bearerAuth: [] }],
-        body: {
+        headers: {
           type: "object",
-          required: ["resourceType", "name"],
           properties: {
-            resourceType: { type: "string", enum: ["Practitioner"] },
-            name: { type: "array" },
-            active: { type: "boolean" },
-            identifier: { type: "array" },
-            telecom: { type: "array" },
-            gender: { type: "string" },
-            birthDate: { type: "string" }
+            "if-none-exist": { type: "string" }
           }
-        }
+        },
+        body: practitionerBodySchema
       }
     },
     async (request: FastifyRequest<{ Body: FHIRPractitioner }>, reply: FastifyReply) => {
     try {
-      const { currentOrganizationId } = request.user;
+      const issues = validateResource(request.body);
+      if (issues.length > 0) {
+        return reply.code(400).send(createValidationOutcome(issues));
+      }
+
+      const { organizationIds, currentOrganizationId } = request.user;
+
+      // Conditional create: don't create a duplicate of a practitioner we already hold
+      const ifNoneExist = request.headers['if-none-exist'] as string | undefined;
+      if (ifNoneExist) {
+        const parsed = parseSearchCriteria(ifNoneExist, practitionerSearchParamsSchema);
+        if (parsed.error) {
+          return reply.code(400).send(createOperationOutcome('error', 'invalid', parsed.error));
+        }
+
+        // Match across all of the user's organizations, as patients do, so a practitioner
+        // already held by another of them is not duplicated
+        const searchOrganizationIds = parsed.query!.organization
+          ? organizationIds.filter(id => id === parsed.query!.organization)
+          : organizationIds;
+        const { ids } = searchOrganizationIds.length > 0
+          ? await searchIds(server.prisma, 'practitioners', practitionerSearchConditions(parsed.query!, searchOrganizationIds), Prisma.sql`r.id`, { skip: 0, take: 2 })
+          : { ids: [] };
+
+        if (ids.length > 1) {
+          return reply.code(412).send(createOperationOutcome('error', 'multiple-matches', 'If-None-Exist criteria match more than one practitioner'));
+        }
+        const existingPractitioner = ids.length === 1 ? await findAccessiblePractitioner(ids[0], organizationIds) : null;
+        if (existingPractitioner) {
+          const resource = transformPractitionerFromDB(existingPractitioner);
+          return reply.headers(versionHeaders(resource)).send(resource);
+        }
+      }
+
       const practitionerData = transformPractitionerToDB(request.body);
 
       const practitioner = await server.prisma.practitioner.create({
@@ -195,7 +413,8 @@ export default async function practitionerRoutes(server: FastifyInstance) {
         });
       }
 
-      reply.code(201).send(transformPractitionerFromDB(practitioner));
+      const resource = transformPractitionerFromDB(practitioner);
+      reply.code(201).headers(versionHeaders(resource)).send(resource);
 
     } catch (error) {
       server.log.error('Create practitioner error:', error);
@@ -217,25 +436,18 @@ export default async function practitionerRoutes(server: FastifyInstance) {
             id: { type: "string" }
           }
         },
-        body: {
-          type: "object",
-          required: ["resourceType", "name"],
-          properties: {
-            resourceType: { type: "string", enum: ["Practitioner"] },
-            name: { type: "array" },
-            active: { type: "boolean" },
-            identifier: { type: "array" },
-            telecom: { type: "array" },
-            gender: { type: "string" },
-            birthDate: { type: "string" }
-          }
-        }
+        body: practitionerBodySchema
       }
     },
     async (request: FastifyRequest<{ Params: { id: string }, Body: FHIRPractitioner }>, reply: FastifyReply) => {
     try {
+      const issues = validateResource(request.body);
+      if (issues.length > 0) {
+        return reply.code(400).send(createValidationOutcome(issues));
+      }
+
       const { id } = request.params;
-      const { organizationIds } = request.user;
+      const { organizationIds, currentOrganizationId } = request.user;
 
       // Check if practitioner exists and user has access
       const existingPractitioner = await server.prisma.practitioner.findFirst({
@@ -254,21 +466,102 @@ export default async function practitionerRoutes(server: FastifyInstance) {
         return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Practitioner not found'));
       }
 
+      // Reject the update if the client edited an older version
+      if (!matchesIfMatch(request.headers['if-match'], existingPractitioner.versionId)) {
+        return reply.code(412).send(createOperationOutcome('error', 'conflict', `Practitioner has been modified; current version is ${existingPractitioner.versionId}`));
+      }
+
       const practitionerData = transformPractitionerToDB(request.body);
-      
-      const practitioner = await server.prisma.practitioner.update({
-        where: { id },
-        data: practitionerData
+
+      // Keep the replaced version in history and bump versionId
+      const practitioner = await server.prisma.$transaction(async tx => {
+        await saveResourceVersion(tx, transformPractitionerFromDB(existingPractitioner), currentOrganizationId, request.user.id);
+        return tx.practitioner.update({
+          where: { id },
+          data: { ...practitionerData, ...NEXT_VERSION }
+        });
       });
 
-      reply.send(transformPractitionerFromDB(practitioner));
+      const resource = transformPractitionerFromDB(practitioner);
+      reply.headers(versionHeaders(resource)).send(resource);
 
     } catch (error) {
+      if (isVersionConflict(error)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Practitioner was modified by another request'));
+      }
       server.log.error('Update practitioner error:', error);
       reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
     }
   });
 
+  // PATCH /fhir/Practitioner/:id - Apply a JSON Patch document to a practitioner
+  server.patch<{ Params: { id: string }, Body: JsonPatchOperation[] }>(
+    '/Practitioner/:id',
+    {
+      preValidation: rejectFhirPathPatch,
+      schema: {
+        tags: ["Practitioners"],
+        description: "Patch practitioner with a JSON Patch document (FHIR). FHIRPath Patch is not supported (415).",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: jsonPatchSchema
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: JsonPatchOperation[] }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds, currentOrganizationId } = request.user;
+
+      const existingPractitioner = await findAccessiblePractitioner(id, organizationIds);
+
+      if (!existingPractitioner) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Practitioner not found'));
+      }
+
+      if (!matchesIfMatch(request.headers['if-match'], existingPractitioner.versionId)) {
+        return reply.code(412).send(createOperationOutcome('error', 'conflict', `Practitioner has been modified; current version is ${existingPractitioner.versionId}`));
+      }
+
+      const current = transformPractitionerFromDB(existingPractitioner);
+      const patched = applyJsonPatch(current, request.body);
+      const error = patched.error ?? validatePatchedResource(request, practitionerBodySchema, current, patched.result);
+
+      if (error) {
+        return reply.code(422).send(createOperationOutcome('error', 'processing', error));
+      }
+
+      const issues = validateResource(patched.result);
+      if (issues.length > 0) {
+        return reply.code(422).send(createValidationOutcome(issues));
+      }
+
+      const practitionerData = clearRemovedFields(transformPractitionerToDB(patched.result as FHIRPractitioner));
+
+      const practitioner = await server.prisma.$transaction(async tx => {
+        await saveResourceVersion(tx, current, currentOrganizationId, request.user.id);
+        return tx.practitioner.update({
+          where: { id },
+          data: { ...practitionerData, ...NEXT_VERSION }
+        });
+      });
+
+      const resource = transformPractitionerFromDB(practitioner);
+      reply.headers(versionHeaders(resource)).send(resource);
+
+    } catch (error) {
+      if (isVersionConflict(error)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Practitioner was modified by another request'));
+      }
+      server.log.error('Patch practitioner error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
   // POST /fhir/Practitioner/:id/assign-organization - Assign practitioner to organization
   server.post<{ Params: { id: string }, Body: { organizationId: string, role?: string, permissions?: any } }>(
     '/Practitioner/:id/assign-organization',
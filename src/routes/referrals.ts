@@ -0,0 +1,529 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { createOperationOutcome, transformReferralFromDB, createBundle, toJsonInput } from '../utils/fhir.js';
+import { FHIRCodeableConcept } from '../types/fhir.js';
+import { config } from '../config/environment.js';
+
+interface ReferralCreateBody {
+  patientId: string;
+  referringPractitionerId: string;
+  receivingOrganizationId: string;
+  receivingPractitionerId?: string;
+  type: string;
+  priority?: string;
+  reasonCode?: FHIRCodeableConcept[];
+  description?: string;
+  requestedService?: FHIRCodeableConcept;
+  supportingInfo?: any;
+}
+
+type ReferralListQuery = { status?: string, patient?: string };
+
+export default async function referralRoutes(server: FastifyInstance) {
+
+  const referralUrl = (request: FastifyRequest, id: string) =>
+    `${request.protocol}://${request.hostname}${config.api.basePath}/referrals/${id}`;
+
+  // Find a referral visible to either the referring or the receiving organization
+  async function findAccessibleReferral(id: string, organizationIds: string[]) {
+    return server.prisma.referral.findFirst({
+      where: {
+        id,
+        OR: [
+          { referringOrganizationId: { in: organizationIds } },
+          { receivingOrganizationId: { in: organizationIds } }
+        ]
+      }
+    });
+  }
+
+  // GET /api/referrals - Referrals sent by the current organization
+  server.get<{ Querystring: ReferralListQuery }>(
+    '/',
+    {
+      schema: {
+        tags: ["Referrals"],
+        description: "List referrals sent by the current organization",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            status: { type: "string" },
+            patient: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: ReferralListQuery }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const query = request.query;
+
+      let where: any = {
+        referringOrganizationId: currentOrganizationId
+      };
+
+      if (query.status) {
+        where.status = query.status;
+      }
+
+      if (query.patient) {
+        where.patientId = query.patient;
+      }
+
+      const referrals = await server.prisma.referral.findMany({
+        where,
+        orderBy: { createdAt: 'desc' }
+      });
+
+      const entries = referrals.map(referral => ({
+        fullUrl: referralUrl(request, referral.id),
+        resource: transformReferralFromDB(referral)
+      }));
+
+      reply.send(createBundle("searchset", entries));
+
+    } catch (error) {
+      server.log.error('List sent referrals error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/referrals/inbox - Referrals received by the current organization
+  server.get<{ Querystring: ReferralListQuery }>(
+    '/inbox',
+    {
+      schema: {
+        tags: ["Referrals"],
+        description: "List referrals received by the current organization (defaults to pending)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            status: { type: "string" },
+            patient: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: ReferralListQuery }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const query = request.query;
+
+      let where: any = {
+        receivingOrganizationId: currentOrganizationId,
+        status: query.status || 'active'
+      };
+
+      if (query.patient) {
+        where.patientId = query.patient;
+      }
+
+      const referrals = await server.prisma.referral.findMany({
+        where,
+        orderBy: { createdAt: 'asc' }
+      });
+
+      const entries = referrals.map(referral => ({
+        fullUrl: referralUrl(request, referral.id),
+        resource: transformReferralFromDB(referral)
+      }));
+
+      reply.send(createBundle("searchset", entries));
+
+    } catch (error) {
+      server.log.error('List referral inbox error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/referrals/:id - Get referral by ID
+  server.get<{ Params: { id: string } }>(
+    '/:id',
+    {
+      schema: {
+        tags: ["Referrals"],
+        description: "Get referral by ID (as FHIR ServiceRequest)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const referral = await findAccessibleReferral(id, organizationIds);
+
+      if (!referral) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Referral not found'));
+      }
+
+      reply.send(transformReferralFromDB(referral));
+
+    } catch (error) {
+      server.log.error('Get referral error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/referrals - Refer a patient to another organization
+  server.post<{ Body: ReferralCreateBody }>(
+    '/',
+    {
+      schema: {
+        tags: ["Referrals"],
+        description: "Create referral to another organization",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["patientId", "referringPractitionerId", "receivingOrganizationId", "type"],
+          properties: {
+            patientId: { type: "string" },
+            referringPractitionerId: { type: "string" },
+            receivingOrganizationId: { type: "string" },
+            receivingPractitionerId: { type: "string" },
+            type: { type: "string", enum: ["consultation", "transfer", "emergency"] },
+            priority: { type: "string", enum: ["routine", "urgent", "asap", "stat"] },
+            reasonCode: { type: "array" },
+            description: { type: "string" },
+            requestedService: { type: "object" },
+            supportingInfo: { type: "object" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: ReferralCreateBody }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const body = request.body;
+
+      if (body.receivingOrganizationId === currentOrganizationId) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Cannot refer a patient to the current organization'));
+      }
+
+      // Validate patient and referring practitioner access
+      const patient = await server.prisma.patient.findFirst({
+        where: {
+          id: body.patientId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!patient) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found or no access'));
+      }
+
+      const referringPractitioner = await server.prisma.practitioner.findFirst({
+        where: {
+          id: body.referringPractitionerId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!referringPractitioner) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Referring practitioner not found or no access'));
+      }
+
+      const receivingOrganization = await server.prisma.organization.findFirst({
+        where: {
+          id: body.receivingOrganizationId,
+          active: true
+        }
+      });
+
+      if (!receivingOrganization) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Receiving organization not found'));
+      }
+
+      if (body.receivingPractitionerId) {
+        const receivingPractitioner = await server.prisma.practitioner.findFirst({
+          where: {
+            id: body.receivingPractitionerId,
+            organizations: {
+              some: {
+                organizationId: body.receivingOrganizationId,
+                status: 'active'
+              }
+            }
+          }
+        });
+
+        if (!receivingPractitioner) {
+          return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Receiving practitioner not found in receiving organization'));
+        }
+      }
+
+      const referral = await server.prisma.referral.create({
+        data: {
+          status: 'active',
+          type: body.type,
+          priority: body.priority,
+          patientId: body.patientId,
+          referringPractitionerId: body.referringPractitionerId,
+          receivingPractitionerId: body.receivingPractitionerId,
+          referringOrganizationId: currentOrganizationId!,
+          receivingOrganizationId: body.receivingOrganizationId,
+          reasonCode: toJsonInput(body.reasonCode || []),
+          description: body.description,
+          requestedService: toJsonInput(body.requestedService),
+          supportingInfo: body.supportingInfo
+        }
+      });
+
+      reply.code(201).send(transformReferralFromDB(referral));
+
+    } catch (error) {
+      server.log.error('Create referral error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/referrals/:id/accept - Receiving organization accepts the referral
+  server.post<{ Params: { id: string }, Body: { receivingPractitionerId?: string } }>(
+    '/:id/accept',
+    {
+      schema: {
+        tags: ["Referrals"],
+        description: "Accept a received referral and link the patient to the receiving organization",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          properties: {
+            receivingPractitionerId: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: { receivingPractitionerId?: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { currentOrganizationId } = request.user;
+      const receivingPractitionerId = request.body?.receivingPractitionerId;
+
+      const referral = await server.prisma.referral.findFirst({
+        where: {
+          id,
+          receivingOrganizationId: currentOrganizationId
+        }
+      });
+
+      if (!referral) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Referral not found'));
+      }
+
+      if (referral.status !== 'active') {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Referral is ${referral.status} and cannot be accepted`));
+      }
+
+      if (receivingPractitionerId) {
+        const receivingPractitioner = await server.prisma.practitioner.findFirst({
+          where: {
+            id: receivingPractitionerId,
+            organizations: {
+              some: {
+                organizationId: currentOrganizationId,
+                status: 'active'
+              }
+            }
+          }
+        });
+
+        if (!receivingPractitioner) {
+          return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Practitioner not found or no access'));
+        }
+      }
+
+      // Accept the referral and give the receiving organization access to the patient.
+      // The status guard makes a concurrent decline or cancel win or lose as a whole:
+      // a referral that is no longer active doesn't link the patient.
+      const acceptedReferral = await server.prisma.$transaction(async (tx) => {
+        const { count } = await tx.referral.updateMany({
+          where: { id, status: 'active' },
+          data: {
+            status: 'accepted',
+            ...(receivingPractitionerId && { receivingPractitionerId })
+          }
+        });
+
+        if (count === 0) {
+          return null;
+        }
+
+        await tx.patientOrganization.upsert({
+          where: {
+            patientId_organizationId: {
+              patientId: referral.patientId,
+              organizationId: currentOrganizationId!
+            }
+          },
+          update: {
+            status: 'active'
+          },
+          create: {
+            patientId: referral.patientId,
+            organizationId: currentOrganizationId!,
+            relationship: 'referred',
+            primaryCare: false
+          }
+        });
+
+        return tx.referral.findUniqueOrThrow({ where: { id } });
+      });
+
+      if (!acceptedReferral) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Referral was changed by another request and cannot be accepted'));
+      }
+
+      reply.send(transformReferralFromDB(acceptedReferral));
+
+    } catch (error) {
+      server.log.error('Accept referral error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/referrals/:id/decline - Receiving organization declines the referral
+  server.post<{ Params: { id: string }, Body: { reason?: string } }>(
+    '/:id/decline',
+    {
+      schema: {
+        tags: ["Referrals"],
+        description: "Decline a received referral",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          properties: {
+            reason: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: { reason?: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { currentOrganizationId } = request.user;
+      const reason = request.body?.reason;
+
+      const referral = await server.prisma.referral.findFirst({
+        where: {
+          id,
+          receivingOrganizationId: currentOrganizationId
+        }
+      });
+
+      if (!referral) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Referral not found'));
+      }
+
+      if (referral.status !== 'active') {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Referral is ${referral.status} and cannot be declined`));
+      }
+
+      const { count } = await server.prisma.referral.updateMany({
+        where: { id, status: 'active' },
+        data: {
+          status: 'declined',
+          ...(reason && {
+            supportingInfo: {
+              ...((referral.supportingInfo as Record<string, any>) || {}),
+              declineReason: reason
+            }
+          })
+        }
+      });
+
+      if (count === 0) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Referral was changed by another request and cannot be declined'));
+      }
+
+      const declinedReferral = await server.prisma.referral.findUniqueOrThrow({ where: { id } });
+
+      reply.send(transformReferralFromDB(declinedReferral));
+
+    } catch (error) {
+      server.log.error('Decline referral error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // DELETE /api/referrals/:id - Referring organization cancels a pending referral
+  server.delete<{ Params: { id: string } }>(
+    '/:id',
+    {
+      schema: {
+        tags: ["Referrals"],
+        description: "Cancel a sent referral",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { currentOrganizationId } = request.user;
+
+      const referral = await server.prisma.referral.findFirst({
+        where: {
+          id,
+          referringOrganizationId: currentOrganizationId
+        }
+      });
+
+      if (!referral) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Referral not found'));
+      }
+
+      if (!['draft', 'active'].includes(referral.status)) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', `Referral is ${referral.status} and cannot be cancelled`));
+      }
+
+      const { count } = await server.prisma.referral.updateMany({
+        where: { id, status: { in: ['draft', 'active'] } },
+        data: { status: 'cancelled' }
+      });
+
+      if (count === 0) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Referral was changed by another request and cannot be cancelled'));
+      }
+
+      reply.code(204).send();
+
+    } catch (error) {
+      server.log.error('Cancel referral error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
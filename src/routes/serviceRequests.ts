@@ -0,0 +1,388 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { createOperationOutcome, transformServiceRequestFromDB, transformServiceRequestToDB, parseTokenParam, parseDateSearchParams, createSearchBundle, getSearchPaging, getSearchOrderBy, searchResultParamsSchema, SearchResultParams, toJsonInput } from '../utils/fhir.js';
+import { FHIRServiceRequest } from '../types/fhir.js';
+
+type ServiceRequestSearchQuery = { patient?: string, encounter?: string, requester?: string, status?: string, priority?: string, category?: string, code?: string, authored?: string[] } & SearchResultParams;
+type ServiceRequestCreateBody = FHIRServiceRequest & { patientId: string, practitionerId: string, encounterId?: string };
+
+const serviceRequestStatuses = ["draft", "active", "completed", "cancelled"];
+const serviceRequestIntents = ["proposal", "plan", "order"];
+const serviceRequestPriorities = ["routine", "urgent", "asap", "stat"];
+
+// _sort parameters supported by ServiceRequest search and the fields they order by
+const SERVICE_REQUEST_SORT_FIELDS: Record<string, string> = {
+  authored: 'authoredOn',
+  status: 'status',
+  priority: 'priority',
+  _lastUpdated: 'updatedAt'
+};
+
+export default async function serviceRequestRoutes(server: FastifyInstance) {
+
+  // GET /fhir/ServiceRequest - Search lab and imaging orders
+  server.get<{ Querystring: ServiceRequestSearchQuery }>(
+    '/ServiceRequest',
+    {
+      schema: {
+        tags: ["Service Requests"],
+        description: "Search service requests (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            patient: { type: "string" },
+            encounter: { type: "string" },
+            requester: { type: "string" },
+            status: { type: "string" },
+            priority: { type: "string" },
+            category: { type: "string" },
+            code: { type: "string" },
+            authored: { type: "array", items: { type: "string" } },
+            ...searchResultParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: ServiceRequestSearchQuery }>, reply: FastifyReply) => {
+    try {
+      const { organizationIds } = request.user;
+      const query = request.query;
+
+      let where: any = {
+        organizationId: { in: organizationIds }
+      };
+
+      // Patient filtering
+      if (query.patient) {
+        where.patientId = query.patient;
+      }
+
+      // Encounter filtering
+      if (query.encounter) {
+        where.encounterId = query.encounter;
+      }
+
+      // Requester filtering
+      if (query.requester) {
+        where.practitionerId = query.requester;
+      }
+
+      // Status filtering
+      if (query.status) {
+        where.status = query.status;
+      }
+
+      // Priority filtering
+      if (query.priority) {
+        where.priority = query.priority;
+      }
+
+      // Category filtering (e.g. laboratory, imaging)
+      if (query.category) {
+        where.category = {
+          array_contains: [{ coding: [parseTokenParam(query.category)] }]
+        };
+      }
+
+      // Code filtering (system|code or code)
+      if (query.code) {
+        where.code = {
+          path: ['coding'],
+          array_contains: [parseTokenParam(query.code)]
+        };
+      }
+
+      // Authored date range filtering
+      if (query.authored) {
+        const dateFilter = parseDateSearchParams(query.authored);
+        if (!dateFilter) {
+          return reply.code(400).send(createOperationOutcome('error', 'invalid', 'Invalid authored search parameter'));
+        }
+        where.authoredOn = dateFilter;
+      }
+
+      const paging = getSearchPaging(query);
+      const orderBy = getSearchOrderBy(query, SERVICE_REQUEST_SORT_FIELDS, { authoredOn: 'desc' });
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${query._sort}`));
+      }
+
+      const [serviceRequests, total] = await Promise.all([
+        server.prisma.serviceRequest.findMany({
+          where,
+          orderBy,
+          ...paging
+        }),
+        server.prisma.serviceRequest.count({ where })
+      ]);
+
+      const entries = serviceRequests.map(serviceRequest => ({
+        fullUrl: `${request.protocol}://${request.hostname}/fhir/ServiceRequest/${serviceRequest.id}`,
+        resource: transformServiceRequestFromDB(serviceRequest)
+      }));
+
+      const bundle = createSearchBundle(request, entries, total, paging);
+      reply.send(bundle);
+
+    } catch (error) {
+      server.log.error('Search service requests error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/ServiceRequest/:id - Get service request by ID
+  server.get<{ Params: { id: string } }>(
+    '/ServiceRequest/:id',
+    {
+      schema: {
+        tags: ["Service Requests"],
+        description: "Get service request by ID (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const serviceRequest = await server.prisma.serviceRequest.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!serviceRequest) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Service request not found'));
+      }
+
+      reply.send(transformServiceRequestFromDB(serviceRequest));
+
+    } catch (error) {
+      server.log.error('Get service request error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /fhir/ServiceRequest - Place a lab or imaging order
+  server.post<{ Body: ServiceRequestCreateBody }>(
+    '/ServiceRequest',
+    {
+      schema: {
+        tags: ["Service Requests"],
+        description: "Create service request (FHIR)",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["resourceType", "status", "intent", "code", "patientId", "practitionerId"],
+          properties: {
+            resourceType: { type: "string", enum: ["ServiceRequest"] },
+            status: { type: "string", enum: serviceRequestStatuses },
+            intent: { type: "string", enum: serviceRequestIntents },
+            priority: { type: "string", enum: serviceRequestPriorities },
+            category: { type: "array" },
+            code: { type: "object" },
+            patientId: { type: "string" },
+            practitionerId: { type: "string" },
+            encounterId: { type: "string" },
+            authoredOn: { type: "string" },
+            reasonCode: { type: "array" },
+            note: { type: "array" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: ServiceRequestCreateBody }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const { patientId, practitionerId, encounterId, ...serviceRequestData } = request.body;
+
+      // Validate patient and practitioner access
+      const patient = await server.prisma.patient.findFirst({
+        where: {
+          id: patientId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!patient) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Patient not found or no access'));
+      }
+
+      const practitioner = await server.prisma.practitioner.findFirst({
+        where: {
+          id: practitionerId,
+          organizations: {
+            some: {
+              organizationId: currentOrganizationId,
+              status: 'active'
+            }
+          }
+        }
+      });
+
+      if (!practitioner) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Practitioner not found or no access'));
+      }
+
+      // The originating encounter must belong to the same patient and organization
+      if (encounterId) {
+        const encounter = await server.prisma.encounter.findFirst({
+          where: {
+            id: encounterId,
+            patientId,
+            organizationId: currentOrganizationId
+          }
+        });
+
+        if (!encounter) {
+          return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Encounter not found or no access'));
+        }
+      }
+
+      const dbServiceRequestData = transformServiceRequestToDB(serviceRequestData, patientId, practitionerId, currentOrganizationId!, encounterId);
+
+      const serviceRequest = await server.prisma.serviceRequest.create({
+        data: dbServiceRequestData
+      });
+
+      reply.code(201).send(transformServiceRequestFromDB(serviceRequest));
+
+    } catch (error) {
+      server.log.error('Create service request error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // PUT /fhir/ServiceRequest/:id - Update service request
+  server.put<{ Params: { id: string }, Body: FHIRServiceRequest }>(
+    '/ServiceRequest/:id',
+    {
+      schema: {
+        tags: ["Service Requests"],
+        description: "Update service request (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          required: ["resourceType", "status", "intent"],
+          properties: {
+            resourceType: { type: "string", enum: ["ServiceRequest"] },
+            status: { type: "string", enum: serviceRequestStatuses },
+            intent: { type: "string", enum: serviceRequestIntents },
+            priority: { type: "string", enum: serviceRequestPriorities },
+            category: { type: "array" },
+            code: { type: "object" },
+            reasonCode: { type: "array" },
+            note: { type: "array" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: FHIRServiceRequest }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      // Check if service request exists and user has access
+      const existingServiceRequest = await server.prisma.serviceRequest.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!existingServiceRequest) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Service request not found'));
+      }
+
+      const updateData: Prisma.ServiceRequestUpdateInput = {
+        status: request.body.status,
+        intent: request.body.intent,
+        priority: request.body.priority,
+        category: toJsonInput(request.body.category),
+        code: toJsonInput(request.body.code),
+        reasonCode: toJsonInput(request.body.reasonCode),
+        note: request.body.note
+      };
+
+      // Remove undefined values
+      Object.keys(updateData).forEach(key =>
+        updateData[key as keyof typeof updateData] === undefined && delete updateData[key as keyof typeof updateData]
+      );
+
+      const serviceRequest = await server.prisma.serviceRequest.update({
+        where: { id },
+        data: updateData
+      });
+
+      reply.send(transformServiceRequestFromDB(serviceRequest));
+
+    } catch (error) {
+      server.log.error('Update service request error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // DELETE /fhir/ServiceRequest/:id - Cancel service request
+  server.delete<{ Params: { id: string } }>(
+    '/ServiceRequest/:id',
+    {
+      schema: {
+        tags: ["Service Requests"],
+        description: "Cancel service request (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { organizationIds } = request.user;
+
+      const serviceRequest = await server.prisma.serviceRequest.findFirst({
+        where: {
+          id,
+          organizationId: { in: organizationIds }
+        }
+      });
+
+      if (!serviceRequest) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Service request not found'));
+      }
+
+      await server.prisma.serviceRequest.update({
+        where: { id },
+        data: { status: 'cancelled' }
+      });
+
+      reply.code(204).send();
+
+    } catch (error) {
+      server.log.error('Cancel service request error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
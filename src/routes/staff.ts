@@ -0,0 +1,476 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { createOperationOutcome, transformStaffToPractitionerRole, createSearchBundle, getSearchPaging, getSearchOrderBy, searchResultParamsSchema, SearchResultParams } from '../utils/fhir.js';
+import { StaffCreateRequest, StaffUpdateRequest, StaffTerminationRequest } from '../types/staff.js';
+
+type StaffListQuery = { department?: string, position?: string, status?: string };
+type PractitionerRoleSearchQuery = StaffListQuery & SearchResultParams;
+
+const staffProperties = {
+  name: { type: "object" },
+  position: { type: "string", minLength: 1 },
+  department: { type: "string" },
+  email: { type: "string", format: "email" },
+  phone: { type: "string" },
+  address: { type: "object" },
+  hireDate: { type: "string", format: "date" },
+  status: { type: "string", enum: ["active", "inactive"] }
+};
+
+const staffListQuerySchema = {
+  type: "object",
+  properties: {
+    department: { type: "string" },
+    position: { type: "string" },
+    status: { type: "string" }
+  }
+};
+
+// _sort parameters supported by PractitionerRole search and the fields they order by
+const PRACTITIONER_ROLE_SORT_FIELDS: Record<string, string> = {
+  date: 'hireDate',
+  role: 'position',
+  _lastUpdated: 'updatedAt'
+};
+
+export default async function staffRoutes(server: FastifyInstance) {
+
+  // Staff records are managed per organization, so only the current one is visible
+  async function findStaffMember(id: string, organizationId?: string) {
+    return server.prisma.staff.findFirst({
+      where: {
+        id,
+        organizationId
+      }
+    });
+  }
+
+  function buildStaffWhere(organizationId: string | undefined, query: StaffListQuery) {
+    const where: any = { organizationId };
+
+    if (query.department) {
+      where.department = { equals: query.department, mode: 'insensitive' };
+    }
+
+    if (query.position) {
+      where.position = { equals: query.position, mode: 'insensitive' };
+    }
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    return where;
+  }
+
+  // GET /api/staff - Search staff directory
+  server.get<{ Querystring: StaffListQuery }>(
+    '/api/staff',
+    {
+      schema: {
+        tags: ["Staff"],
+        description: "Search staff in the current organization",
+        security: [{ bearerAuth: [] }],
+        querystring: staffListQuerySchema
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: StaffListQuery }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+
+      const staff = await server.prisma.staff.findMany({
+        where: buildStaffWhere(currentOrganizationId, request.query),
+        orderBy: { employeeId: 'asc' }
+      });
+
+      reply.send({ staff, total: staff.length });
+
+    } catch (error) {
+      server.log.error('List staff error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /api/staff/:id - Get staff member by ID
+  server.get<{ Params: { id: string } }>(
+    '/api/staff/:id',
+    {
+      schema: {
+        tags: ["Staff"],
+        description: "Get staff member by ID",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const staffMember = await findStaffMember(request.params.id, request.user.currentOrganizationId);
+
+      if (!staffMember) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Staff member not found'));
+      }
+
+      reply.send(staffMember);
+
+    } catch (error) {
+      server.log.error('Get staff member error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/staff - Add staff member to the current organization
+  server.post<{ Body: StaffCreateRequest }>(
+    '/api/staff',
+    {
+      schema: {
+        tags: ["Staff"],
+        description: "Create staff member",
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: "object",
+          required: ["employeeId", "name", "position", "hireDate"],
+          properties: {
+            employeeId: { type: "string", minLength: 1 },
+            ...staffProperties
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Body: StaffCreateRequest }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const { hireDate, name, address, ...staffData } = request.body;
+
+      const existingStaff = await server.prisma.staff.findUnique({
+        where: { employeeId: staffData.employeeId }
+      });
+
+      if (existingStaff) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Staff member with this employee ID already exists'));
+      }
+
+      const staffMember = await server.prisma.staff.create({
+        data: {
+          ...staffData,
+          name: name as any,
+          address: address as any,
+          hireDate: new Date(hireDate),
+          organizationId: currentOrganizationId!
+        }
+      });
+
+      reply.code(201).send(staffMember);
+
+    } catch (error) {
+      server.log.error('Create staff member error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // PUT /api/staff/:id - Update staff member
+  server.put<{ Params: { id: string }, Body: StaffUpdateRequest }>(
+    '/api/staff/:id',
+    {
+      schema: {
+        tags: ["Staff"],
+        description: "Update staff member",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          properties: staffProperties
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: StaffUpdateRequest }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { hireDate, ...staffData } = request.body;
+
+      const existingStaff = await findStaffMember(id, request.user.currentOrganizationId);
+
+      if (!existingStaff) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Staff member not found'));
+      }
+
+      if (existingStaff.status === 'terminated') {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Terminated staff records cannot be modified'));
+      }
+
+      const updateData: any = {
+        ...staffData,
+        hireDate: hireDate ? new Date(hireDate) : undefined
+      };
+
+      // Remove undefined values
+      Object.keys(updateData).forEach(key => updateData[key] === undefined && delete updateData[key]);
+
+      const staffMember = await server.prisma.staff.update({
+        where: { id },
+        data: updateData
+      });
+
+      reply.send(staffMember);
+
+    } catch (error) {
+      server.log.error('Update staff member error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // POST /api/staff/:id/terminate - Terminate employment, optionally revoking the linked user's access
+  server.post<{ Params: { id: string }, Body: StaffTerminationRequest }>(
+    '/api/staff/:id/terminate',
+    {
+      schema: {
+        tags: ["Staff"],
+        description: "Terminate staff member (organization admins only). With deactivateUser, userId names the user account whose access is revoked.",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        },
+        body: {
+          type: "object",
+          properties: {
+            deactivateUser: { type: "boolean" },
+            userId: { type: "string" },
+            reason: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string }, Body: StaffTerminationRequest }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { currentOrganizationId } = request.user;
+      const { deactivateUser = false, userId } = request.body || {};
+
+      // Terminating staff (and revoking their access) is for organization admins
+      const hasAdminAccess = request.user.organizationAccess.some(access =>
+        access.organizationId === currentOrganizationId && ['admin', 'super_admin'].includes(access.role)
+      );
+
+      if (!hasAdminAccess) {
+        return reply.code(403).send(createOperationOutcome('error', 'forbidden', 'Insufficient permissions'));
+      }
+
+      if (deactivateUser && !userId) {
+        return reply.code(400).send(createOperationOutcome('error', 'required', 'userId is required to deactivate a user account'));
+      }
+
+      const existingStaff = await findStaffMember(id, currentOrganizationId);
+
+      if (!existingStaff) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Staff member not found'));
+      }
+
+      if (existingStaff.status === 'terminated') {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Staff member is already terminated'));
+      }
+
+      // The staff email is editable by any member, so the account to deactivate is
+      // named explicitly and must hold access to the staff member's organization
+      const linkedUser = deactivateUser
+        ? await server.prisma.user.findFirst({
+            where: {
+              id: userId,
+              organizationAccess: { some: { organizationId: existingStaff.organizationId } }
+            },
+            include: { organizationAccess: true }
+          })
+        : null;
+
+      if (deactivateUser && !linkedUser) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'User not found in this organization'));
+      }
+
+      if (linkedUser && linkedUser.id === request.user.id) {
+        return reply.code(409).send(createOperationOutcome('error', 'conflict', 'Cannot deactivate your own user account'));
+      }
+
+      if (linkedUser?.role === 'super_admin' && request.user.role !== 'super_admin') {
+        return reply.code(403).send(createOperationOutcome('error', 'forbidden', 'Only a super admin can deactivate a super admin account'));
+      }
+
+      const result = await server.prisma.$transaction(async (tx) => {
+        const staffMember = await tx.staff.update({
+          where: { id },
+          data: { status: 'terminated' }
+        });
+
+        if (!linkedUser) {
+          return { staffMember, userDeactivated: false };
+        }
+
+        // Revoke access to this organization; the account itself is only
+        // disabled when no other organization still grants active access
+        await tx.userOrganizationAccess.updateMany({
+          where: {
+            userId: linkedUser.id,
+            organizationId: existingStaff.organizationId
+          },
+          data: { status: 'inactive' }
+        });
+
+        const hasOtherActiveAccess = linkedUser.organizationAccess.some(access =>
+          access.organizationId !== existingStaff.organizationId && access.status === 'active'
+        );
+
+        if (!hasOtherActiveAccess) {
+          await tx.user.update({
+            where: { id: linkedUser.id },
+            data: { active: false }
+          });
+        }
+
+        return { staffMember, userDeactivated: !hasOtherActiveAccess };
+      });
+
+      reply.send({
+        staff: result.staffMember,
+        linkedUserId: linkedUser?.id ?? null,
+        userDeactivated: result.userDeactivated
+      });
+
+    } catch (error) {
+      server.log.error('Terminate staff member error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // DELETE /api/staff/:id - Deactivate staff member
+  server.delete<{ Params: { id: string } }>(
+    '/api/staff/:id',
+    {
+      schema: {
+        tags: ["Staff"],
+        description: "Deactivate staff member",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+
+      const staffMember = await findStaffMember(id, request.user.currentOrganizationId);
+
+      if (!staffMember) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'Staff member not found'));
+      }
+
+      if (staffMember.status !== 'terminated') {
+        await server.prisma.staff.update({
+          where: { id },
+          data: { status: 'inactive' }
+        });
+      }
+
+      reply.code(204).send();
+
+    } catch (error) {
+      server.log.error('Deactivate staff member error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/PractitionerRole - Staff directory as PractitionerRole resources
+  server.get<{ Querystring: PractitionerRoleSearchQuery }>(
+    '/fhir/PractitionerRole',
+    {
+      schema: {
+        tags: ["Staff"],
+        description: "Export staff as PractitionerRole resources (FHIR)",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: "object",
+          properties: {
+            ...staffListQuerySchema.properties,
+            ...searchResultParamsSchema
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Querystring: PractitionerRoleSearchQuery }>, reply: FastifyReply) => {
+    try {
+      const { currentOrganizationId } = request.user;
+      const where = buildStaffWhere(currentOrganizationId, request.query);
+
+      const paging = getSearchPaging(request.query);
+      const orderBy = getSearchOrderBy(request.query, PRACTITIONER_ROLE_SORT_FIELDS, { employeeId: 'asc' });
+      if (!orderBy) {
+        return reply.code(400).send(createOperationOutcome('error', 'invalid', `Unsupported _sort parameter: ${request.query._sort}`));
+      }
+
+      const [staff, total] = await Promise.all([
+        server.prisma.staff.findMany({
+          where,
+          orderBy,
+          ...paging
+        }),
+        server.prisma.staff.count({ where })
+      ]);
+
+      const entries = staff.map(staffMember => ({
+        fullUrl: `${request.protocol}://${request.hostname}/fhir/PractitionerRole/${staffMember.id}`,
+        resource: transformStaffToPractitionerRole(staffMember)
+      }));
+
+      const bundle = createSearchBundle(request, entries, total, paging);
+      reply.send(bundle);
+
+    } catch (error) {
+      server.log.error('Search practitioner roles error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+
+  // GET /fhir/PractitionerRole/:id - Staff member as a PractitionerRole resource
+  server.get<{ Params: { id: string } }>(
+    '/fhir/PractitionerRole/:id',
+    {
+      schema: {
+        tags: ["Staff"],
+        description: "Get staff member as PractitionerRole (FHIR)",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: "object",
+          properties: {
+            id: { type: "string" }
+          }
+        }
+      }
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const staffMember = await findStaffMember(request.params.id, request.user.currentOrganizationId);
+
+      if (!staffMember) {
+        return reply.code(404).send(createOperationOutcome('error', 'not-found', 'PractitionerRole not found'));
+      }
+
+      reply.send(transformStaffToPractitionerRole(staffMember));
+
+    } catch (error) {
+      server.log.error('Get practitioner role error:', error);
+      reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { createOperationOutcome } from '../utils/fhir.js';
+import { createValidationOutcome, validateResource, VALIDATED_RESOURCE_TYPES } from '../utils/validation.js';
+
+export default async function validationRoutes(server: FastifyInstance) {
+
+  for (const resourceType of VALIDATED_RESOURCE_TYPES) {
+    // POST /fhir/{type}/$validate - Check a resource against the rules enforced on create and update
+    server.post<{ Body: Record<string, any> }>(
+      `/${resourceType}/$validate`,
+      {
+        schema: {
+          tags: ["Validation"],
+          description: `Validate a ${resourceType} without saving it (FHIR $validate). The resource is posted directly or as the "resource" parameter of a Parameters resource.`,
+          security: [{ bearerAuth: [] }],
+          body: {
+            type: "object",
+            required: ["resourceType"],
+            properties: {
+              resourceType: { type: "string" }
+            }
+          }
+        }
+      },
+      async (request: FastifyRequest<{ Body: Record<string, any> }>, reply: FastifyReply) => {
+      try {
+        const resource = request.body.resourceType === 'Parameters'
+          ? request.body.parameter?.find((parameter: any) => parameter?.name === 'resource')?.resource
+          : request.body;
+
+        if (!resource) {
+          return reply.code(400).send(createOperationOutcome('error', 'required', 'Parameters must include a "resource" parameter'));
+        }
+        if (resource.resourceType !== resourceType) {
+          return reply.code(400).send(createOperationOutcome('error', 'invalid', `Expected a ${resourceType} resource but got ${resource.resourceType}`));
+        }
+
+        // The outcome is the result of the operation, so it is returned with 200 whether or not the resource is valid
+        reply.send(createValidationOutcome(validateResource(resource)));
+
+      } catch (error) {
+        server.log.error('Validate resource error:', error);
+        reply.code(500).send(createOperationOutcome('error', 'exception', 'Internal server error'));
+      }
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import Fastify from "fastify";
+import Fastify, { RouteOptions } from "fastify";
 import jwt from "@fastify/jwt";
 import cors from "@fastify/cors";
 import rateLimit from "@fastify/rate-limit";
@@ -7,6 +7,10 @@ import swaggerUi from "@fastify/swagger-ui";
 import multipart from "@fastify/multipart";
 import { PrismaClient } from "@prisma/client";
 import { config } from "./config/environment.js";
+import { markOverdueInvoices } from "./utils/billing.js";
+import { getInventoryAlerts } from "./utils/inventory.js";
+import { getBundleTransactionClient, isBundleEntryRequest } from "./utils/bundle.js";
+import { FHIR_JSON_CONTENT_TYPE, JSON_PATCH_CONTENT_TYPE } from "./utils/patch.js";
 
 // Import routes
 import authRoutes from "./routes/auth.js";
@@ -14,6 +18,20 @@ import organizationRoutes from "./routes/organizations.js";
 import practitionerRoutes from "./routes/practitioners.js";
 import patientRoutes from "./routes/patients.js";
 import appointmentRoutes from "./routes/appointments.js";
+import encounterRoutes from "./routes/encounters.js";
+import observationRoutes from "./routes/observations.js";
+import medicationRoutes from "./routes/medications.js";
+import medicationRequestRoutes from "./routes/medicationRequests.js";
+import serviceRequestRoutes from "./routes/serviceRequests.js";
+import diagnosticReportRoutes from "./routes/diagnosticReports.js";
+import referralRoutes from "./routes/referrals.js";
+import invoiceRoutes from "./routes/invoices.js";
+import inventoryRoutes from "./routes/inventory.js";
+import equipmentRoutes from "./routes/equipment.js";
+import staffRoutes from "./routes/staff.js";
+import bundleRoutes from "./routes/bundles.js";
+import metadataRoutes from "./routes/metadata.js";
+import validationRoutes from "./routes/validation.js";
 
 // Import middleware
 import authMiddleware from "./middleware/auth.js";
@@ -50,7 +68,12 @@ declare module "fastify" {
   }
 }
 
-server.decorate("prisma", prisma);
+// Requests replayed from a transaction Bundle see the Bundle's transaction instead
+server.decorate("prisma", {
+  getter() {
+    return getBundleTransactionClient() ?? prisma;
+  },
+});
 
 // Test database connection on startup
 server.addHook('onReady', async () => {
@@ -87,12 +110,16 @@ await server.register(cors, {
   origin: config.cors.enabled ? config.cors.origins : false,
   credentials: true,
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS", "PATCH"],
-  allowedHeaders: ["Content-Type", "Authorization", "x-organization-id"],
+  allowedHeaders: ["Content-Type", "Authorization", "x-organization-id", "If-Match"],
+  exposedHeaders: ["ETag", "Last-Modified"],
 });
 
 await server.register(rateLimit, {
   max: config.rateLimit.max,
   timeWindow: config.rateLimit.window,
+  // Bundle entries are replayed with server.inject from 127.0.0.1; the Bundle
+  // request is counted instead of sharing one bucket between every sender
+  allowList: () => isBundleEntryRequest(),
   errorResponseBuilder: (request, context) => ({
     code: 429,
     error: "Too Many Requests",
@@ -115,6 +142,14 @@ await server.register(multipart, {
   },
 });
 
+// JSON Patch documents (PATCH /fhir/{type}/{id}) and FHIR JSON bodies are
+// parsed like any JSON body
+server.addContentTypeParser(
+  [JSON_PATCH_CONTENT_TYPE, FHIR_JSON_CONTENT_TYPE],
+  { parseAs: "string" },
+  server.getDefaultJsonParser("error", "error"),
+);
+
 // Swagger documentation (only in development)
 if (config.development.enableSwagger) {
   await server.register(swagger, {
@@ -162,6 +197,58 @@ if (config.development.enableSwagger) {
           name: "Appointments",
           description: "Appointment scheduling and management",
         },
+        {
+          name: "Encounters",
+          description: "Clinical encounter documentation",
+        },
+        {
+          name: "Observations",
+          description: "Vital signs and laboratory observations",
+        },
+        {
+          name: "Medications",
+          description: "Medication formulary and prescriptions",
+        },
+        {
+          name: "Service Requests",
+          description: "Laboratory and imaging orders",
+        },
+        {
+          name: "Diagnostic Reports",
+          description: "Diagnostic reports and their result observations",
+        },
+        {
+          name: "Referrals",
+          description: "Cross-organization patient referrals",
+        },
+        {
+          name: "Billing",
+          description: "Invoices and payment recording",
+        },
+        {
+          name: "Inventory",
+          description: "Inventory items and stock ledger",
+        },
+        {
+          name: "Equipment",
+          description: "Equipment registry and preventive maintenance",
+        },
+        {
+          name: "Staff",
+          description: "Staff directory and PractitionerRole export",
+        },
+        {
+          name: "Bundles",
+          description: "FHIR batch and transaction Bundles",
+        },
+        {
+          name: "Metadata",
+          description: "FHIR server capabilities",
+        },
+        {
+          name: "Validation",
+          description: "FHIR resource validation",
+        },
         { name: "Health", description: "System health and monitoring" },
       ],
     },
@@ -184,6 +271,12 @@ if (config.development.enableSwagger) {
   });
 }
 
+// Record every route as it is registered; /fhir/metadata describes the FHIR ones
+const registeredRoutes: RouteOptions[] = [];
+server.addHook("onRoute", (route) => {
+  registeredRoutes.push(route);
+});
+
 // Register middleware BEFORE routes - CRITICAL ORDER
 server.log.info('🔧 Registering middleware...');
 
@@ -396,8 +489,203 @@ try {
   throw error;
 }
 
+try {
+  await server.register(encounterRoutes, { prefix: config.api.fhirPath });
+  server.log.info('✅ Encounter routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register encounter routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(observationRoutes, { prefix: config.api.fhirPath });
+  server.log.info('✅ Observation routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register observation routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(medicationRoutes, { prefix: config.api.fhirPath });
+  server.log.info('✅ Medication routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register medication routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(medicationRequestRoutes, { prefix: config.api.fhirPath });
+  server.log.info('✅ Medication request routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register medication request routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(serviceRequestRoutes, { prefix: config.api.fhirPath });
+  server.log.info('✅ Service request routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register service request routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(diagnosticReportRoutes, { prefix: config.api.fhirPath });
+  server.log.info('✅ Diagnostic report routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register diagnostic report routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(referralRoutes, { prefix: config.api.basePath + "/referrals" });
+  server.log.info('✅ Referral routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register referral routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(invoiceRoutes, { prefix: "" });
+  server.log.info('✅ Invoice routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register invoice routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(inventoryRoutes, { prefix: config.api.basePath + "/inventory" });
+  server.log.info('✅ Inventory routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register inventory routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(equipmentRoutes, { prefix: config.api.basePath + "/equipment" });
+  server.log.info('✅ Equipment routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register equipment routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(staffRoutes, { prefix: "" });
+  server.log.info('✅ Staff routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register staff routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(bundleRoutes, { prefix: config.api.fhirPath });
+  server.log.info('✅ Bundle routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register bundle routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(metadataRoutes, { prefix: config.api.fhirPath, routes: registeredRoutes });
+  server.log.info('✅ Metadata routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register metadata routes:', error);
+  throw error;
+}
+
+try {
+  await server.register(validationRoutes, { prefix: config.api.fhirPath });
+  server.log.info('✅ Validation routes registered');
+} catch (error) {
+  server.log.error('❌ Failed to register validation routes:', error);
+  throw error;
+}
+
 server.log.info('✅ All routes registered successfully');
 
+// Run a background job on a fixed interval while the server is up.
+// Overlapping runs are skipped and failures are logged, never thrown.
+function scheduleBackgroundJob(
+  name: string,
+  intervalMinutes: number,
+  job: () => Promise<void>,
+) {
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      await job();
+    } catch (error) {
+      server.log.error(`❌ ${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  server.addHook('onReady', async () => {
+    timer = setInterval(run, intervalMinutes * 60 * 1000);
+    timer.unref();
+    void run();
+  });
+
+  server.addHook('onClose', async () => {
+    clearInterval(timer);
+  });
+}
+
+// Background job: flag issued invoices that are past their due date as overdue
+if (config.billing.overdueJobEnabled) {
+  scheduleBackgroundJob(
+    'Overdue invoice check',
+    config.billing.overdueCheckIntervalMinutes,
+    async () => {
+      const markedCount = await markOverdueInvoices(prisma);
+      if (markedCount > 0) {
+        server.log.info(`🧾 Marked ${markedCount} invoice(s) as overdue`);
+      }
+    },
+  );
+}
+
+// Background job: report low-stock and expiring inventory per organization
+if (config.inventory.alertJobEnabled) {
+  scheduleBackgroundJob(
+    'Inventory alert check',
+    config.inventory.alertCheckIntervalMinutes,
+    async () => {
+      const organizations = await prisma.organization.findMany({
+        where: { active: true },
+        select: { id: true, name: true },
+      });
+
+      const organizationNames = new Map<string, string>(
+        organizations.map((organization) => [organization.id, organization.name]),
+      );
+
+      // One query pair for all organizations; alerts come back grouped per organization
+      const alerts = await getInventoryAlerts(
+        prisma,
+        [...organizationNames.keys()],
+        config.inventory.expiryWindowDays,
+      );
+
+      for (const { organizationId, lowStock, expiring } of alerts) {
+        if (lowStock.length > 0 || expiring.length > 0) {
+          server.log.warn(
+            `📦 ${organizationNames.get(organizationId)}: ${lowStock.length} item(s) below minimum stock, ${expiring.length} item(s) expiring within ${config.inventory.expiryWindowDays} days`,
+          );
+        }
+      }
+    },
+  );
+}
+
 // Global error handler with detailed logging
 server.setErrorHandler((error, request, reply) => {
   server.log.error("🚨 Global error handler triggered:", {
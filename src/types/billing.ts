@@ -0,0 +1,44 @@
+export interface InvoiceLineItem {
+  description: string;
+  code?: string;
+  quantity: number;
+  unitPrice: number;
+  amount?: number;
+}
+
+export interface InvoiceCreateRequest {
+  patientId: string;
+  lineItems: InvoiceLineItem[];
+  dueDate: string;
+  currency?: string;
+  status?: "draft" | "issued";
+  notes?: string;
+}
+
+export interface InvoiceUpdateRequest {
+  lineItems?: InvoiceLineItem[];
+  dueDate?: string;
+  notes?: string;
+}
+
+export interface PaymentRequest {
+  amount: number;
+  date?: string;
+  method?: string;
+  reference?: string;
+}
+
+export type AgingBucket = "0-30" | "31-60" | "61-90" | "90+";
+
+export interface AgingBucketTotal {
+  count: number;
+  amount: number;
+}
+
+export interface AgingReportRow {
+  organizationId: string;
+  currency: string;
+  current: AgingBucketTotal;
+  buckets: Record<AgingBucket, AgingBucketTotal>;
+  totalOutstanding: number;
+}
@@ -0,0 +1,49 @@
+export interface EquipmentCreateRequest {
+  name: string;
+  type: string;
+  manufacturer?: string;
+  model?: string;
+  serialNumber?: string;
+  status?: "active" | "maintenance" | "retired";
+  location?: string;
+  purchaseDate?: string;
+  warrantyExpiry?: string;
+  nextMaintenance?: string;
+}
+
+export type EquipmentUpdateRequest = Partial<EquipmentCreateRequest>;
+
+export interface MaintenanceRecordRequest {
+  type: "routine" | "repair" | "calibration";
+  description: string;
+  cost?: number;
+  performedBy?: string;
+  date?: string;
+  nextDue?: string;
+}
+
+export interface MaintenanceDueEntry {
+  equipmentId: string;
+  name: string;
+  type: string;
+  location: string | null;
+  status: string;
+  lastMaintenance: string | null;
+  nextMaintenance: string;
+  daysUntilDue: number;
+  overdue: boolean;
+}
+
+export interface WarrantyWarningEntry {
+  equipmentId: string;
+  name: string;
+  serialNumber: string | null;
+  warrantyExpiry: string;
+  daysUntilExpiry: number;
+  expired: boolean;
+}
+
+export interface EquipmentOrganizationReport<T> {
+  organizationId: string;
+  equipment: T[];
+}
@@ -5,6 +5,7 @@ export interface FHIRResource {
   meta?: {
     lastUpdated?: string;
     versionId?: string;
+    tag?: FHIRCoding[];
   };
 }
 
@@ -53,6 +54,30 @@ export interface FHIRAddress {
   country?: string;
 }
 
+export interface FHIRPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FHIRQuantity {
+  value?: number;
+  comparator?: string;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FHIRMoney {
+  value?: number;
+  currency?: string;
+}
+
+export interface FHIRReference {
+  reference?: string;
+  type?: string;
+  display?: string;
+}
+
 export interface FHIRPatient extends FHIRResource {
   resourceType: "Patient";
   identifier?: FHIRIdentifier[];
@@ -106,13 +131,136 @@ export interface FHIRAppointment extends FHIRResource {
   participant?: any[];
 }
 
+export interface FHIREncounter extends FHIRResource {
+  resourceType: "Encounter";
+  identifier?: FHIRIdentifier[];
+  status: string;
+  class: FHIRCoding;
+  type?: FHIRCodeableConcept[];
+  reasonCode?: FHIRCodeableConcept[];
+  period?: FHIRPeriod;
+  diagnosis?: any[];
+  subject?: FHIRReference;
+  participant?: any[];
+  appointment?: FHIRReference[];
+  serviceProvider?: FHIRReference;
+}
+
+export interface FHIRObservation extends FHIRResource {
+  resourceType: "Observation";
+  identifier?: FHIRIdentifier[];
+  status: string;
+  category?: FHIRCodeableConcept[];
+  code: FHIRCodeableConcept;
+  subject?: FHIRReference;
+  encounter?: FHIRReference;
+  effectiveDateTime?: string;
+  issued?: string;
+  valueQuantity?: FHIRQuantity;
+  valueCodeableConcept?: FHIRCodeableConcept;
+  valueString?: string;
+  interpretation?: FHIRCodeableConcept[];
+  note?: any[];
+  performer?: FHIRReference[];
+}
+
+export interface FHIRMedication extends FHIRResource {
+  resourceType: "Medication";
+  identifier?: FHIRIdentifier[];
+  code: FHIRCodeableConcept;
+  status?: string;
+  manufacturer?: FHIRReference;
+  form?: FHIRCodeableConcept;
+  ingredient?: any[];
+}
+
+export interface FHIRMedicationRequest extends FHIRResource {
+  resourceType: "MedicationRequest";
+  identifier?: FHIRIdentifier[];
+  status: string;
+  intent: string;
+  medicationReference?: FHIRReference;
+  medicationCodeableConcept?: FHIRCodeableConcept;
+  subject?: FHIRReference;
+  requester?: FHIRReference;
+  authoredOn?: string;
+  reasonCode?: FHIRCodeableConcept[];
+  dosageInstruction?: any[];
+  dispenseRequest?: any;
+}
+
+export interface FHIRServiceRequest extends FHIRResource {
+  resourceType: "ServiceRequest";
+  identifier?: FHIRIdentifier[];
+  status: string;
+  intent: string;
+  category?: FHIRCodeableConcept[];
+  code?: FHIRCodeableConcept;
+  priority?: string;
+  subject?: FHIRReference;
+  encounter?: FHIRReference;
+  requester?: FHIRReference;
+  performer?: FHIRReference[];
+  authoredOn?: string;
+  reasonCode?: FHIRCodeableConcept[];
+  note?: any[];
+  extension?: any[];
+}
+
+export interface FHIRDiagnosticReport extends FHIRResource {
+  resourceType: "DiagnosticReport";
+  identifier?: FHIRIdentifier[];
+  status: string;
+  category?: FHIRCodeableConcept[];
+  code: FHIRCodeableConcept;
+  subject?: FHIRReference;
+  effectiveDateTime?: string;
+  issued?: string;
+  performer?: FHIRReference[];
+  result?: FHIRReference[];
+  conclusion?: string;
+}
+
+export interface FHIRInvoice extends FHIRResource {
+  resourceType: "Invoice";
+  identifier?: FHIRIdentifier[];
+  status: string;
+  subject?: FHIRReference;
+  issuer?: FHIRReference;
+  date?: string;
+  lineItem?: any[];
+  totalNet?: FHIRMoney;
+  totalGross?: FHIRMoney;
+  paymentTerms?: string;
+  note?: any[];
+  extension?: any[];
+}
+
+export interface FHIRPractitionerRole extends FHIRResource {
+  resourceType: "PractitionerRole";
+  identifier?: FHIRIdentifier[];
+  active?: boolean;
+  period?: FHIRPeriod;
+  practitioner?: FHIRReference;
+  organization?: FHIRReference;
+  code?: FHIRCodeableConcept[];
+  telecom?: FHIRContactPoint[];
+  extension?: any[];
+}
+
 export interface FHIRBundle extends FHIRResource {
   resourceType: "Bundle";
   type: string;
   total?: number;
+  link?: FHIRBundleLink[];
   entry?: FHIRBundleEntry[];
 }
 
+export interface FHIRBundleLink {
+  relation: string;
+  url: string;
+}
+
 export interface FHIRBundleEntry {
   fullUrl?: string;
   resource?: FHIRResource;
@@ -120,6 +268,73 @@ export interface FHIRBundleEntry {
     mode?: string;
     score?: number;
   };
+  request?: {
+    method: 'GET' | 'HEAD' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+    url: string;
+    ifMatch?: string;
+    ifNoneExist?: string;
+  };
+  response?: {
+    status: string;
+    location?: string;
+    etag?: string;
+    lastModified?: string;
+    outcome?: FHIROperationOutcome;
+  };
+}
+
+export interface FHIRCapabilityStatement extends FHIRResource {
+  resourceType: "CapabilityStatement";
+  status: string;
+  date: string;
+  kind: string;
+  software?: {
+    name: string;
+    version?: string;
+  };
+  implementation?: {
+    description: string;
+    url?: string;
+  };
+  fhirVersion: string;
+  format: string[];
+  patchFormat?: string[];
+  rest: FHIRCapabilityStatementRest[];
+}
+
+export interface FHIRCapabilityStatementRest {
+  mode: string;
+  security?: {
+    cors?: boolean;
+    service?: FHIRCodeableConcept[];
+    description?: string;
+  };
+  resource: FHIRCapabilityStatementResource[];
+  interaction?: { code: string }[];
+  operation?: FHIRCapabilityStatementOperation[];
+}
+
+export interface FHIRCapabilityStatementResource {
+  type: string;
+  interaction: { code: string }[];
+  versioning?: string;
+  readHistory?: boolean;
+  updateCreate?: boolean;
+  conditionalCreate?: boolean;
+  conditionalUpdate?: boolean;
+  conditionalDelete?: 'not-supported' | 'single' | 'multiple';
+  searchInclude?: string[];
+  searchRevInclude?: string[];
+  searchParam?: {
+    name: string;
+    type: string;
+  }[];
+  operation?: FHIRCapabilityStatementOperation[];
+}
+
+export interface FHIRCapabilityStatementOperation {
+  name: string;
+  definition: string;
 }
 
 export interface FHIROperationOutcome extends FHIRResource {
@@ -132,4 +347,5 @@ export interface FHIROperationOutcomeIssue {
   code: string;
   diagnostics?: string;
   details?: FHIRCodeableConcept;
+  expression?: string[];
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+export type InventoryTransactionType = "in" | "out" | "adjustment";
+
+export interface InventoryItemCreateRequest {
+  name: string;
+  category: "medication" | "supply" | "equipment";
+  sku?: string;
+  description?: string;
+  unitOfMeasure: string;
+  currentStock?: number;
+  minimumStock?: number;
+  maximumStock?: number;
+  unitCost?: number;
+  supplier?: string;
+  expirationDate?: string;
+}
+
+export type InventoryItemUpdateRequest = Partial<Omit<InventoryItemCreateRequest, "currentStock">>;
+
+export interface InventoryTransactionRequest {
+  type: InventoryTransactionType;
+  quantity: number;
+  reason?: string;
+  reference?: string;
+  date?: string;
+  notes?: string;
+}
+
+export interface LowStockAlert {
+  itemId: string;
+  name: string;
+  category: string;
+  currentStock: number;
+  minimumStock: number;
+  maximumStock: number | null;
+  suggestedReorderQuantity: number;
+}
+
+export interface ExpiryAlert {
+  itemId: string;
+  name: string;
+  category: string;
+  currentStock: number;
+  expirationDate: string;
+  daysUntilExpiry: number;
+}
+
+export interface InventoryAlerts {
+  organizationId: string;
+  lowStock: LowStockAlert[];
+  expiring: ExpiryAlert[];
+}
@@ -0,0 +1,22 @@
+import { FHIRAddress, FHIRHumanName } from "./fhir.js";
+
+export interface StaffCreateRequest {
+  employeeId: string;
+  name: FHIRHumanName & { text?: string };
+  position: string;
+  department?: string;
+  email?: string;
+  phone?: string;
+  address?: FHIRAddress;
+  hireDate: string;
+  status?: "active" | "inactive";
+}
+
+export type StaffUpdateRequest = Partial<Omit<StaffCreateRequest, "employeeId">>;
+
+export interface StaffTerminationRequest {
+  deactivateUser?: boolean;
+  // User account to deactivate; required with deactivateUser
+  userId?: string;
+  reason?: string;
+}
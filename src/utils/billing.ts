@@ -0,0 +1,164 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AgingBucket, AgingReportRow, InvoiceLineItem } from '../types/billing.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+// Round a monetary value to cents
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Recompute line item amounts and the invoice total, ignoring client-supplied amounts
+export function calculateInvoiceTotals(lineItems: InvoiceLineItem[]): { lineItems: InvoiceLineItem[]; totalAmount: number } {
+  const calculatedItems = lineItems.map(item => ({
+    description: item.description,
+    ...(item.code && { code: item.code }),
+    quantity: item.quantity,
+    unitPrice: roundCurrency(item.unitPrice),
+    amount: roundCurrency(item.quantity * item.unitPrice)
+  }));
+
+  const totalAmount = roundCurrency(
+    calculatedItems.reduce((sum, item) => sum + item.amount, 0)
+  );
+
+  return { lineItems: calculatedItems, totalAmount };
+}
+
+// Validate line items beyond what the JSON schema can express
+export function validateLineItems(lineItems: InvoiceLineItem[]): string | null {
+  if (lineItems.length === 0) {
+    return 'At least one line item is required';
+  }
+
+  for (const [index, item] of lineItems.entries()) {
+    if (!item.description?.trim()) {
+      return `lineItems[${index}].description is required`;
+    }
+    if (!Number.isFinite(item.quantity) || item.quantity <= 0) {
+      return `lineItems[${index}].quantity must be greater than 0`;
+    }
+    if (!Number.isFinite(item.unitPrice) || item.unitPrice < 0) {
+      return `lineItems[${index}].unitPrice must not be negative`;
+    }
+  }
+
+  return null;
+}
+
+// Next sequential invoice number for an organization, e.g. "ORG-001-INV-000042"
+export async function generateInvoiceNumber(tx: Prisma.TransactionClient, organizationId: string): Promise<string> {
+  const organization = await tx.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { identifier: true }
+  });
+
+  const invoiceCount = await tx.invoice.count({
+    where: { organizationId }
+  });
+
+  return `${organization.identifier}-INV-${String(invoiceCount + 1).padStart(6, '0')}`;
+}
+
+// Flip issued invoices past their due date to overdue, auditing each change.
+// Returns the number of invoices marked overdue.
+export async function markOverdueInvoices(prisma: PrismaClient, now: Date = new Date()): Promise<number> {
+  const candidates = await prisma.invoice.findMany({
+    where: {
+      status: 'issued',
+      dueDate: { lt: now }
+    },
+    select: { id: true, organizationId: true, dueDate: true, totalAmount: true, paidAmount: true }
+  });
+
+  let markedCount = 0;
+
+  for (const invoice of candidates) {
+    if (invoice.paidAmount >= invoice.totalAmount) {
+      continue;
+    }
+
+    const marked = await prisma.$transaction(async (tx) => {
+      // Guard on status so a payment recorded since the lookup is not overwritten
+      const { count } = await tx.invoice.updateMany({
+        where: { id: invoice.id, status: 'issued' },
+        data: { status: 'overdue' }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.auditLog.create({
+        data: {
+          organizationId: invoice.organizationId,
+          resourceType: 'Invoice',
+          resourceId: invoice.id,
+          action: 'UPDATE',
+          changes: {
+            status: { from: 'issued', to: 'overdue' },
+            dueDate: invoice.dueDate.toISOString(),
+            outstandingAmount: roundCurrency(invoice.totalAmount - invoice.paidAmount),
+            reason: 'Overdue invoice detection job'
+          }
+        }
+      });
+
+      return true;
+    });
+
+    if (marked) {
+      markedCount++;
+    }
+  }
+
+  return markedCount;
+}
+
+// Bucket for an invoice that is `daysPastDue` days past its due date
+export function getAgingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 30) return '0-30';
+  if (daysPastDue <= 60) return '31-60';
+  if (daysPastDue <= 90) return '61-90';
+  return '90+';
+}
+
+// Group outstanding balances by organization and currency into aging buckets.
+// Invoices that are not yet due are reported separately as "current".
+export function buildAgingReport(
+  invoices: { organizationId: string; currency: string; dueDate: Date; totalAmount: number; paidAmount: number }[],
+  asOf: Date = new Date()
+): AgingReportRow[] {
+  const rows = new Map<string, AgingReportRow>();
+
+  for (const invoice of invoices) {
+    const outstanding = roundCurrency(invoice.totalAmount - invoice.paidAmount);
+    if (outstanding <= 0) {
+      continue;
+    }
+
+    const key = `${invoice.organizationId}|${invoice.currency}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        organizationId: invoice.organizationId,
+        currency: invoice.currency,
+        current: { count: 0, amount: 0 },
+        buckets: Object.fromEntries(AGING_BUCKETS.map(bucket => [bucket, { count: 0, amount: 0 }])) as AgingReportRow['buckets'],
+        totalOutstanding: 0
+      };
+      rows.set(key, row);
+    }
+
+    const daysPastDue = Math.floor((asOf.getTime() - invoice.dueDate.getTime()) / DAY_MS);
+    const target = daysPastDue < 0 ? row.current : row.buckets[getAgingBucket(daysPastDue)];
+
+    target.count++;
+    target.amount = roundCurrency(target.amount + outstanding);
+    row.totalOutstanding = roundCurrency(row.totalOutstanding + outstanding);
+  }
+
+  return Array.from(rows.values());
+}
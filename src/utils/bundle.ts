@@ -0,0 +1,178 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { STATUS_CODES } from 'node:http';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { FHIRBundleEntry, FHIROperationOutcome, FHIRResource } from '../types/fhir.js';
+import { JSON_PATCH_CONTENT_TYPE, JsonPatchOperation } from './patch.js';
+
+export const MAX_BUNDLE_ENTRIES = 100;
+
+// Interactive transaction timeout for transaction Bundles (Prisma's default is 5s)
+export const BUNDLE_TRANSACTION_TIMEOUT_MS = 30000;
+
+const transactionStorage = new AsyncLocalStorage<PrismaClient>();
+const entryStorage = new AsyncLocalStorage<boolean>();
+
+// Transaction client that lets routes keep calling $transaction: nested
+// transactions join the Bundle's transaction instead of opening a new one.
+// Each runs inside a savepoint and rolls back to it on failure, because
+// PostgreSQL aborts the whole transaction on an error otherwise and a route
+// that catches the error to retry (e.g. a unique violation) could never succeed.
+function joinableTransaction(tx: Prisma.TransactionClient): PrismaClient {
+  let savepoints = 0;
+
+  return new Proxy(tx as any, {
+    get(target, property) {
+      if (property === '$transaction') {
+        return async (operations: any) => {
+          const savepoint = `bundle_savepoint_${++savepoints}`;
+          await tx.$executeRawUnsafe(`SAVEPOINT ${savepoint}`);
+
+          try {
+            let results;
+            if (typeof operations === 'function') {
+              results = await operations(tx);
+            } else {
+              results = [];
+              for (const operation of operations) {
+                results.push(await operation);
+              }
+            }
+
+            await tx.$executeRawUnsafe(`RELEASE SAVEPOINT ${savepoint}`);
+            return results;
+          } catch (error) {
+            await tx.$executeRawUnsafe(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+            throw error;
+          }
+        };
+      }
+
+      return Reflect.get(target, property);
+    }
+  });
+}
+
+// Prisma client of the transaction Bundle being processed, if any
+export function getBundleTransactionClient(): PrismaClient | undefined {
+  return transactionStorage.getStore();
+}
+
+// Run fn (and every request it injects) against the given transaction. Any
+// FHIR interaction can be a transaction entry (create, conditional create,
+// read, search, update, patch, delete and operations such as $dispense): each
+// runs its route as usual, with its queries in the Bundle's transaction.
+// Route code that recovers from a database error must wrap the failing query
+// in $transaction: anywhere else the error leaves the transaction aborted.
+export function runInBundleTransaction<T>(tx: Prisma.TransactionClient, fn: () => Promise<T>): Promise<T> {
+  return transactionStorage.run(joinableTransaction(tx), fn);
+}
+
+// Run fn, marking every request it injects as a Bundle entry. server.inject
+// only dispatches once its result is awaited, so that happens inside the context.
+export function runAsBundleEntry<T>(fn: () => PromiseLike<T>): Promise<T> {
+  return entryStorage.run(true, async () => await fn());
+}
+
+// Whether the current request is a Bundle entry replayed by the server. The
+// Bundle itself went through the rate limiter, so its entries are not counted.
+export function isBundleEntryRequest(): boolean {
+  return entryStorage.getStore() === true;
+}
+
+const METHOD_ORDER: Record<string, number> = { DELETE: 0, POST: 1, PUT: 2, PATCH: 2, GET: 3, HEAD: 3 };
+
+// Entry indexes in the order a transaction processes them: DELETE, POST,
+// PUT/PATCH, then GET, as FHIR requires. Within each group an entry waits for
+// the entries whose fullUrl it references, so creates can refer to each other
+// in any order (cycles fall back to Bundle order).
+export function getTransactionOrder(entries: FHIRBundleEntry[]): number[] {
+  const pending = entries
+    .map((_, index) => index)
+    .sort((a, b) => METHOD_ORDER[entries[a].request!.method] - METHOD_ORDER[entries[b].request!.method] || a - b);
+
+  const references = entries.map(entry => JSON.stringify([entry.request!.url, entry.resource ?? null]));
+  const dependsOn = (index: number, other: number) =>
+    other !== index && !!entries[other].fullUrl && references[index].includes(entries[other].fullUrl!);
+
+  const order: number[] = [];
+  while (pending.length > 0) {
+    const group = METHOD_ORDER[entries[pending[0]].request!.method];
+    const ready = pending.findIndex(index =>
+      METHOD_ORDER[entries[index].request!.method] === group &&
+      !pending.some(other => METHOD_ORDER[entries[other].request!.method] === group && dependsOn(index, other))
+    );
+    order.push(...pending.splice(Math.max(ready, 0), 1));
+  }
+
+  return order;
+}
+
+// Replace urn:uuid fullUrls of resources created earlier in the Bundle. Reference
+// elements get "Type/id"; any other string (e.g. a patientId field) gets the bare id.
+export function resolveBundleReferences(value: any, created: Map<string, { resourceType: string; id: string }>, key?: string): any {
+  if (typeof value === 'string') {
+    const target = created.get(value);
+    if (!target) {
+      return value;
+    }
+    return key === 'reference' ? `${target.resourceType}/${target.id}` : target.id;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => resolveBundleReferences(item, created));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([property, item]) => [property, resolveBundleReferences(item, created, property)])
+    );
+  }
+
+  return value;
+}
+
+// Replace urn:uuid fullUrls inside an entry's request URL (e.g. "Patient/urn:uuid:.../_history")
+export function resolveBundleUrl(url: string, created: Map<string, { resourceType: string; id: string }>): string {
+  let resolved = url;
+  for (const [fullUrl, target] of created) {
+    resolved = resolved.split(fullUrl).join(target.id);
+  }
+  return resolved;
+}
+
+// JSON Patch document held in a Binary resource (Binary.data is base64), or null
+export function decodePatchBinary(binary: FHIRResource & { contentType?: string; data?: string }): JsonPatchOperation[] | null {
+  if (typeof binary.data !== 'string' || (binary.contentType && binary.contentType !== JSON_PATCH_CONTENT_TYPE)) {
+    return null;
+  }
+
+  try {
+    const operations = JSON.parse(Buffer.from(binary.data, 'base64').toString('utf8'));
+    return Array.isArray(operations) ? operations : null;
+  } catch {
+    return null;
+  }
+}
+
+// Bundle response entry for an entry's HTTP result
+export function createBundleResponseEntry(
+  statusCode: number,
+  body: any,
+  headers: Record<string, any>
+): FHIRBundleEntry {
+  const isOutcome = body?.resourceType === 'OperationOutcome';
+  const resource: FHIRResource | undefined = body?.resourceType && !isOutcome ? body : undefined;
+
+  return {
+    ...(resource && { resource }),
+    response: {
+      status: `${statusCode} ${STATUS_CODES[statusCode] ?? ''}`.trim(),
+      ...(statusCode === 201 && resource?.id && {
+        location: `${resource.resourceType}/${resource.id}/_history/${resource.meta?.versionId ?? 1}`
+      }),
+      ...(headers.etag && { etag: String(headers.etag) }),
+      ...(resource?.meta?.lastUpdated && { lastModified: resource.meta.lastUpdated }),
+      ...(isOutcome && { outcome: body as FHIROperationOutcome })
+    }
+  };
+}
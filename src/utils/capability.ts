@@ -0,0 +1,208 @@
+import { RouteOptions } from 'fastify';
+import {
+  FHIRCapabilityStatement,
+  FHIRCapabilityStatementOperation,
+  FHIRCapabilityStatementResource,
+  FHIRCapabilityStatementRest
+} from '../types/fhir.js';
+import { JSON_PATCH_CONTENT_TYPE } from './patch.js';
+
+export const FHIR_VERSION = '4.0.1';
+
+// FHIR search parameter types by parameter name; anything else is a token
+const SEARCH_PARAM_TYPES: Record<string, string> = {
+  name: 'string',
+  family: 'string',
+  given: 'string',
+  'address-city': 'string',
+  date: 'date',
+  birthdate: 'date',
+  authored: 'date',
+  authoredon: 'date',
+  patient: 'reference',
+  practitioner: 'reference',
+  organization: 'reference',
+  encounter: 'reference',
+  appointment: 'reference',
+  requester: 'reference',
+  medication: 'reference'
+};
+
+// Order interactions are listed in, as the FHIR specification does
+const INTERACTION_ORDER = ['read', 'vread', 'update', 'patch', 'delete', 'history-instance', 'history-type', 'create', 'search-type'];
+
+// The FHIR interaction a route implements, from its method and the path below
+// the FHIR base ("Patient/:id/_history" is history-instance)
+function getInteraction(method: string, segments: string[]): string | null {
+  const [, id, history, vid] = segments;
+
+  if (segments.length === 1) {
+    return method === 'GET' ? 'search-type' : method === 'POST' ? 'create' : null;
+  }
+  if (segments.length === 2 && id === '_history') {
+    return method === 'GET' ? 'history-type' : null;
+  }
+  if (segments.length === 2 && id.startsWith(':')) {
+    return ({ GET: 'read', PUT: 'update', PATCH: 'patch', DELETE: 'delete' } as Record<string, string>)[method] ?? null;
+  }
+  if (segments.length === 3 && history === '_history' && method === 'GET') {
+    return 'history-instance';
+  }
+  if (segments.length === 4 && history === '_history' && vid.startsWith(':') && method === 'GET') {
+    return 'vread';
+  }
+  return null;
+}
+
+// Allowed values of a search result parameter such as _include (string or array of strings)
+function getEnumValues(schema: any): string[] {
+  return schema?.items?.enum ?? schema?.enum ?? [];
+}
+
+// Operations the FHIR specification defines on Resource, for every resource type
+const RESOURCE_OPERATIONS = ['validate'];
+
+function getOperation(resourceType: string | null, name: string): FHIRCapabilityStatementOperation {
+  const operation = name.replace(/^\$/, '');
+  const definedOn = RESOURCE_OPERATIONS.includes(operation) ? 'Resource' : resourceType;
+  return {
+    name: operation,
+    definition: `OperationDefinition/${definedOn ? `${definedOn}-` : ''}${operation}`
+  };
+}
+
+// The rest entry of a CapabilityStatement, describing the FHIR routes registered
+// below fhirPath: their resource types, interactions, search parameters and
+// operations. It depends only on the routes, so callers can build it once.
+export function createCapabilityRest(routes: RouteOptions[], fhirPath: string): FHIRCapabilityStatementRest {
+  const resources = new Map<string, FHIRCapabilityStatementResource>();
+  const systemInteractions: { code: string }[] = [];
+  const systemOperations: FHIRCapabilityStatementOperation[] = [];
+
+  for (const route of routes) {
+    if (route.url !== fhirPath && !route.url.startsWith(`${fhirPath}/`)) {
+      continue;
+    }
+
+    const path = route.url.slice(fhirPath.length).replace(/^\/+|\/+$/g, '');
+    const segments = path ? path.split('/') : [];
+    const methods = ([] as string[]).concat(route.method).filter(method => method !== 'HEAD');
+
+    for (const method of methods) {
+      if (segments.length === 0) {
+        if (method === 'POST' && systemInteractions.length === 0) {
+          systemInteractions.push({ code: 'transaction' }, { code: 'batch' });
+        }
+        continue;
+      }
+
+      if (segments.length === 1 && segments[0].startsWith('$')) {
+        systemOperations.push(getOperation(null, segments[0]));
+        continue;
+      }
+
+      const [resourceType] = segments;
+      if (!/^[A-Z][A-Za-z]+$/.test(resourceType)) {
+        continue;
+      }
+
+      if (!resources.has(resourceType)) {
+        resources.set(resourceType, { type: resourceType, interaction: [] });
+      }
+      const resource = resources.get(resourceType)!;
+
+      const lastSegment = segments[segments.length - 1];
+      if (lastSegment.startsWith('$')) {
+        if (!resource.operation?.some(operation => operation.name === lastSegment.slice(1))) {
+          resource.operation = [...(resource.operation || []), getOperation(resourceType, lastSegment)];
+        }
+        continue;
+      }
+
+      // PUT on the type itself is a conditional update (PUT /Patient?identifier=...)
+      if (segments.length === 1 && method === 'PUT') {
+        resource.conditionalUpdate = true;
+        continue;
+      }
+
+      const interaction = getInteraction(method, segments);
+      if (!interaction || resource.interaction.some(existing => existing.code === interaction)) {
+        continue;
+      }
+      resource.interaction.push({ code: interaction });
+
+      if (interaction === 'create' && (route.schema?.headers as any)?.properties?.['if-none-exist']) {
+        resource.conditionalCreate = true;
+      }
+
+      if (interaction === 'search-type') {
+        const properties: Record<string, any> = (route.schema?.querystring as any)?.properties ?? {};
+        const searchParams = Object.keys(properties).filter(name => !name.startsWith('_') && !name.includes(':'));
+
+        if (searchParams.length > 0) {
+          resource.searchParam = searchParams.map(name => ({ name, type: SEARCH_PARAM_TYPES[name] ?? 'token' }));
+        }
+        if (properties._include) {
+          resource.searchInclude = getEnumValues(properties._include);
+        }
+        if (properties._revinclude) {
+          resource.searchRevInclude = getEnumValues(properties._revinclude);
+        }
+      }
+    }
+  }
+
+  const resourceList = [...resources.values()]
+    .filter(resource => resource.interaction.length > 0)
+    .sort((a, b) => a.type.localeCompare(b.type))
+    .map(resource => {
+      const codes = resource.interaction.map(interaction => interaction.code);
+      return {
+        ...resource,
+        interaction: resource.interaction.sort((a, b) => INTERACTION_ORDER.indexOf(a.code) - INTERACTION_ORDER.indexOf(b.code)),
+        versioning: codes.includes('vread') ? 'versioned' : 'no-version',
+        readHistory: codes.includes('vread'),
+        updateCreate: false,
+        // No conditional delete (DELETE /Type?criteria) route exists; resources are
+        // deleted, where at all, by id
+        conditionalDelete: 'not-supported' as const
+      };
+    });
+
+  return {
+    mode: "server",
+    security: {
+      cors: true,
+      description: "Requests require a JWT bearer token in the Authorization header, obtained from the auth login endpoint. The x-organization-id header selects the organization to act in."
+    },
+    resource: resourceList,
+    ...(systemInteractions.length > 0 && { interaction: systemInteractions }),
+    ...(systemOperations.length > 0 && { operation: systemOperations })
+  };
+}
+
+// CapabilityStatement for the server, dated now. implementation.url is only
+// included when the server's public base URL is configured, never taken from
+// the request's Host header.
+export function createCapabilityStatement(rest: FHIRCapabilityStatementRest, baseUrl?: string): FHIRCapabilityStatement {
+  return {
+    resourceType: "CapabilityStatement",
+    status: "active",
+    date: new Date().toISOString(),
+    kind: "instance",
+    software: {
+      name: "Healthcare Management API",
+      version: process.env.npm_package_version || "1.0.0"
+    },
+    implementation: {
+      description: "Multi-organization healthcare management system with FHIR compliance",
+      ...(baseUrl && { url: baseUrl })
+    },
+    fhirVersion: FHIR_VERSION,
+    format: ["json"],
+    ...(rest.resource.some(resource => resource.interaction.some(interaction => interaction.code === 'patch')) && {
+      patchFormat: [JSON_PATCH_CONTENT_TYPE]
+    }),
+    rest: [rest]
+  };
+}
@@ -0,0 +1,81 @@
+import { PrismaClient } from '@prisma/client';
+import { EquipmentOrganizationReport, MaintenanceDueEntry, WarrantyWarningEntry } from '../types/equipment.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysUntil(date: Date, now: Date): number {
+  return Math.ceil((date.getTime() - now.getTime()) / DAY_MS);
+}
+
+function groupByOrganization<T>(organizationIds: string[], rows: { organizationId: string; entry: T }[]): EquipmentOrganizationReport<T>[] {
+  const reports = new Map<string, EquipmentOrganizationReport<T>>(
+    organizationIds.map(organizationId => [organizationId, { organizationId, equipment: [] }])
+  );
+
+  for (const { organizationId, entry } of rows) {
+    reports.get(organizationId)!.equipment.push(entry);
+  }
+
+  return Array.from(reports.values());
+}
+
+// In-service equipment whose next maintenance falls within the window, including overdue items
+export async function getMaintenanceDue(
+  prisma: PrismaClient,
+  organizationIds: string[],
+  withinDays: number,
+  now: Date = new Date()
+): Promise<EquipmentOrganizationReport<MaintenanceDueEntry>[]> {
+  const equipment = await prisma.equipment.findMany({
+    where: {
+      organizationId: { in: organizationIds },
+      status: { not: 'retired' },
+      nextMaintenance: { lte: new Date(now.getTime() + withinDays * DAY_MS) }
+    },
+    orderBy: { nextMaintenance: 'asc' }
+  });
+
+  return groupByOrganization(organizationIds, equipment.map(item => ({
+    organizationId: item.organizationId,
+    entry: {
+      equipmentId: item.id,
+      name: item.name,
+      type: item.type,
+      location: item.location,
+      status: item.status,
+      lastMaintenance: item.lastMaintenance?.toISOString() ?? null,
+      nextMaintenance: item.nextMaintenance!.toISOString(),
+      daysUntilDue: daysUntil(item.nextMaintenance!, now),
+      overdue: item.nextMaintenance! < now
+    }
+  })));
+}
+
+// In-service equipment whose warranty expires within the window or has already expired
+export async function getWarrantyWarnings(
+  prisma: PrismaClient,
+  organizationIds: string[],
+  withinDays: number,
+  now: Date = new Date()
+): Promise<EquipmentOrganizationReport<WarrantyWarningEntry>[]> {
+  const equipment = await prisma.equipment.findMany({
+    where: {
+      organizationId: { in: organizationIds },
+      status: { not: 'retired' },
+      warrantyExpiry: { lte: new Date(now.getTime() + withinDays * DAY_MS) }
+    },
+    orderBy: { warrantyExpiry: 'asc' }
+  });
+
+  return groupByOrganization(organizationIds, equipment.map(item => ({
+    organizationId: item.organizationId,
+    entry: {
+      equipmentId: item.id,
+      name: item.name,
+      serialNumber: item.serialNumber,
+      warrantyExpiry: item.warrantyExpiry!.toISOString(),
+      daysUntilExpiry: daysUntil(item.warrantyExpiry!, now),
+      expired: item.warrantyExpiry! < now
+    }
+  })));
+}
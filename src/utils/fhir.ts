@@ -1,12 +1,23 @@
 import { v4 as uuidv4 } from 'uuid';
+import { FastifyRequest } from 'fastify';
+import { Prisma } from '@prisma/client';
 import { 
   FHIROperationOutcome, 
   FHIRBundle, 
   FHIRBundleEntry, 
+  FHIRBundleLink,
   FHIRPatient, 
   FHIRPractitioner, 
   FHIROrganization,
-  FHIRAppointment
+  FHIRAppointment,
+  FHIREncounter,
+  FHIRObservation,
+  FHIRMedication,
+  FHIRMedicationRequest,
+  FHIRServiceRequest,
+  FHIRDiagnosticReport,
+  FHIRInvoice,
+  FHIRPractitionerRole
 } from '../types/fhir.js';
 
 // FHIR Operation Outcome utility
@@ -32,7 +43,7 @@ export function createOperationOutcome(
 }
 
 // FHIR Bundle utility
-export function createBundle(type: string, entries: FHIRBundleEntry[], total?: number): FHIRBundle {
+export function createBundle(type: string, entries: FHIRBundleEntry[], total?: number, links?: FHIRBundleLink[]): FHIRBundle {
   return {
     resourceType: "Bundle",
     id: uuidv4(),
@@ -40,11 +51,303 @@ export function createBundle(type: string, entries: FHIRBundleEntry[], total?: n
       lastUpdated: new Date().toISOString()
     },
     type,
-    total: total !== null ? total : entries.length,
+    total: total ?? entries.length,
+    ...(links && { link: links }),
     entry: entries
   };
 }
 
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// Query string schema properties for the common FHIR search result parameters
+export const searchResultParamsSchema = {
+  _count: { type: "integer", minimum: 0 },
+  _offset: { type: "integer", minimum: 0 },
+  _sort: { type: "string" },
+  _elements: { type: "string" },
+  _summary: { type: "string", enum: ["true", "false", "count"] }
+};
+
+export type SearchResultParams = {
+  _count?: number,
+  _offset?: number,
+  _sort?: string,
+  _elements?: string,
+  _summary?: 'true' | 'false' | 'count'
+};
+
+export interface SearchPaging {
+  skip: number;
+  take: number;
+}
+
+// Prisma skip/take for a search from _count (page size) and _offset (page token);
+// _summary=count only needs the total, so no rows are fetched
+export function getSearchPaging(query: SearchResultParams): SearchPaging {
+  return {
+    skip: query._offset ?? 0,
+    take: query._summary === 'count' ? 0 : Math.min(query._count ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+  };
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SearchSort {
+  param: string;
+  direction: SortDirection;
+}
+
+// Parse _sort ("family,-birthdate") against the parameters a resource can be
+// sorted by; returns null if any of them is not supported
+export function parseSortParam(value: string | undefined, allowed: string[]): SearchSort[] | null {
+  const sorts: SearchSort[] = [];
+
+  for (const part of (value ?? '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const param = part.startsWith('-') ? part.substring(1) : part;
+    if (!allowed.includes(param)) {
+      return null;
+    }
+    sorts.push({ param, direction: part.startsWith('-') ? 'desc' : 'asc' });
+  }
+
+  return sorts;
+}
+
+// Prisma orderBy for a search: _sort parameters mapped to model fields (with id
+// as a tie-breaker so paging is stable), or the route's default order
+export function getSearchOrderBy(
+  query: SearchResultParams,
+  sortFields: Record<string, string>,
+  defaultOrderBy: Record<string, SortDirection>
+): Record<string, SortDirection>[] | null {
+  const sorts = parseSortParam(query._sort, Object.keys(sortFields));
+  if (!sorts) {
+    return null;
+  }
+
+  if (sorts.length === 0) {
+    return [defaultOrderBy];
+  }
+
+  return [...sorts.map(sort => ({ [sortFields[sort.param]]: sort.direction })), { id: 'asc' }];
+}
+
+// self/next/previous links for a page of search results, preserving the
+// original query (including repeated parameters) and replacing _count/_offset
+export function createSearchLinks(request: FastifyRequest, paging: SearchPaging, total: number): FHIRBundleLink[] {
+  const [path, queryString = ''] = request.url.split('?');
+  const baseUrl = `${request.protocol}://${request.hostname}${path}`;
+
+  const pageUrl = (offset: number) => {
+    const params = new URLSearchParams(queryString);
+    params.set('_count', String(paging.take));
+    params.set('_offset', String(offset));
+    return `${baseUrl}?${params.toString()}`;
+  };
+
+  const links: FHIRBundleLink[] = [{ relation: 'self', url: pageUrl(paging.skip) }];
+
+  if (paging.take > 0 && paging.skip + paging.take < total) {
+    links.push({ relation: 'next', url: pageUrl(paging.skip + paging.take) });
+  }
+
+  if (paging.skip > 0) {
+    links.push({ relation: 'previous', url: pageUrl(Math.max(paging.skip - paging.take, 0)) });
+  }
+
+  return links;
+}
+
+// Elements returned for _summary=true, per resource type (FHIR R4 summary elements).
+// Choice elements end in [x] and match every typed variant (valueQuantity, valueString, ...).
+const SUMMARY_ELEMENTS: Record<string, string[]> = {
+  Patient: ['identifier', 'active', 'name', 'telecom', 'gender', 'birthDate', 'deceased[x]', 'address', 'managingOrganization', 'link'],
+  Practitioner: ['identifier', 'active', 'name', 'telecom', 'address', 'gender', 'birthDate'],
+  Organization: ['identifier', 'active', 'type', 'name', 'alias', 'partOf'],
+  PractitionerRole: ['identifier', 'active', 'period', 'practitioner', 'organization', 'code', 'specialty', 'location', 'telecom'],
+  Appointment: ['identifier', 'status', 'serviceCategory', 'serviceType', 'specialty', 'appointmentType', 'start', 'end', 'participant'],
+  Encounter: ['identifier', 'status', 'class', 'type', 'serviceType', 'priority', 'subject', 'participant', 'appointment', 'period', 'serviceProvider'],
+  Observation: ['identifier', 'basedOn', 'partOf', 'status', 'code', 'subject', 'encounter', 'effective[x]', 'issued', 'performer', 'value[x]', 'hasMember', 'derivedFrom'],
+  Medication: ['identifier', 'code', 'status', 'manufacturer', 'amount'],
+  MedicationRequest: ['identifier', 'status', 'intent', 'priority', 'doNotPerform', 'medication[x]', 'subject', 'encounter', 'authoredOn', 'requester', 'performer'],
+  ServiceRequest: ['identifier', 'basedOn', 'status', 'intent', 'category', 'priority', 'doNotPerform', 'code', 'subject', 'encounter', 'occurrence[x]', 'authoredOn', 'requester', 'performer', 'reasonCode'],
+  DiagnosticReport: ['identifier', 'basedOn', 'status', 'category', 'code', 'subject', 'encounter', 'effective[x]', 'issued', 'performer'],
+  Invoice: ['identifier', 'status', 'type', 'subject', 'recipient', 'date', 'totalNet', 'totalGross']
+};
+
+// Elements that are always returned when a resource is subsetted
+const MANDATORY_ELEMENTS = ['resourceType', 'id', 'meta'];
+
+const SUBSETTED_TAG = {
+  system: "http://terminology.hl7.org/CodeSystem/v3-ObservationValue",
+  code: "SUBSETTED",
+  display: "Resource encoded in summary mode"
+};
+
+// Reduce a resource to the given elements and tag it as SUBSETTED
+export function subsetResource(resource: any, elements: string[]): any {
+  const matches = (key: string) => elements.some(element =>
+    element.endsWith('[x]') ? key.startsWith(element.slice(0, -3)) : key === element
+  );
+
+  const subset = Object.fromEntries(
+    Object.entries(resource).filter(([key]) => MANDATORY_ELEMENTS.includes(key) || matches(key))
+  );
+
+  return {
+    ...subset,
+    meta: {
+      ...resource.meta,
+      tag: [...(resource.meta?.tag ?? []), SUBSETTED_TAG]
+    }
+  };
+}
+
+// Apply _summary / _elements from the search request to the entries of a page
+function applySearchResultElements(query: SearchResultParams, entries: FHIRBundleEntry[]): FHIRBundleEntry[] {
+  if (query._summary === 'count') {
+    return [];
+  }
+
+  if (query._summary === 'true') {
+    return entries.map(entry => {
+      const elements = entry.resource && SUMMARY_ELEMENTS[entry.resource.resourceType];
+      return elements ? { ...entry, resource: subsetResource(entry.resource, elements) } : entry;
+    });
+  }
+
+  if (query._elements) {
+    const elements = query._elements.split(',').map(element => element.trim()).filter(Boolean);
+    return entries.map(entry => entry.resource ? { ...entry, resource: subsetResource(entry.resource, elements) } : entry);
+  }
+
+  return entries;
+}
+
+// Searchset Bundle for one page of results; total is the full match count.
+// _summary and _elements are applied here so routes only build full resources.
+export function createSearchBundle(request: FastifyRequest, entries: FHIRBundleEntry[], total: number, paging: SearchPaging): FHIRBundle {
+  const query = request.query as SearchResultParams;
+  const bundle = createBundle("searchset", applySearchResultElements(query, entries), total, createSearchLinks(request, paging, total));
+
+  if (query._summary === 'count') {
+    delete bundle.entry;
+  }
+
+  return bundle;
+}
+
+// Parse a FHIR token search parameter ("system|code" or "code")
+export function parseTokenParam(value: string): { system?: string; code: string } {
+  const separatorIndex = value.indexOf('|');
+  if (separatorIndex === -1) {
+    return { code: value };
+  }
+
+  const system = value.substring(0, separatorIndex);
+  return {
+    ...(system && { system }),
+    code: value.substring(separatorIndex + 1)
+  };
+}
+
+// Half-open date range [gte, lt) usable directly as a Prisma DateTime filter
+export interface DateSearchFilter {
+  gte?: Date;
+  lt?: Date;
+}
+
+const DATE_SEARCH_PREFIXES = ['eq', 'ge', 'gt', 'le', 'lt'] as const;
+type DateSearchPrefix = typeof DATE_SEARCH_PREFIXES[number];
+
+const DATE_SEARCH_VALUE = /^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?)?)?$/;
+
+// The range implied by a FHIR date/dateTime value at its own precision,
+// e.g. "2024" covers the whole year and "2024-03" the whole month (UTC)
+export function parseFHIRDateRange(value: string): { start: Date; end: Date } | null {
+  const match = DATE_SEARCH_VALUE.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, , second] = match;
+  let start: Date;
+  let end: Date;
+
+  if (hour !== undefined) {
+    start = new Date(value);
+    end = new Date(start.getTime() + (second !== undefined ? 1000 : 60 * 1000));
+  } else if (day !== undefined) {
+    start = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    end = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day) + 1));
+  } else if (month !== undefined) {
+    start = new Date(Date.UTC(Number(year), Number(month) - 1, 1));
+    end = new Date(Date.UTC(Number(year), Number(month), 1));
+  } else {
+    start = new Date(Date.UTC(Number(year), 0, 1));
+    end = new Date(Date.UTC(Number(year) + 1, 0, 1));
+  }
+
+  if (isNaN(start.getTime()) || start.getUTCFullYear() !== Number(year) ||
+      (month !== undefined && hour === undefined && start.getUTCMonth() !== Number(month) - 1) ||
+      (day !== undefined && hour === undefined && start.getUTCDate() !== Number(day))) {
+    return null;
+  }
+
+  return { start, end };
+}
+
+// Parse FHIR date search values (eq/ge/gt/le/lt prefixes, partial dates) into a
+// Prisma range filter. Repeated parameters are ANDed; returns null if any value is invalid.
+export function parseDateSearchParams(values: string | string[]): DateSearchFilter | null {
+  const filter: DateSearchFilter = {};
+
+  const narrow = (bound: 'gte' | 'lt', date: Date) => {
+    const current = filter[bound];
+    if (!current || (bound === 'gte' ? date > current : date < current)) {
+      filter[bound] = date;
+    }
+  };
+
+  for (const value of Array.isArray(values) ? values : [values]) {
+    const candidate = value.substring(0, 2) as DateSearchPrefix;
+    const prefix: DateSearchPrefix = DATE_SEARCH_PREFIXES.includes(candidate) ? candidate : 'eq';
+    const range = parseFHIRDateRange(DATE_SEARCH_PREFIXES.includes(candidate) ? value.substring(2) : value);
+
+    if (!range) {
+      return null;
+    }
+
+    switch (prefix) {
+      case 'eq':
+        narrow('gte', range.start);
+        narrow('lt', range.end);
+        break;
+      case 'ge':
+        narrow('gte', range.start);
+        break;
+      case 'gt':
+        narrow('gte', range.end);
+        break;
+      case 'le':
+        narrow('lt', range.end);
+        break;
+      case 'lt':
+        narrow('lt', range.start);
+        break;
+    }
+  }
+
+  return filter;
+}
+
+// FHIR datatypes are stored in Json columns as-is; Prisma's input type can't
+// tell that interfaces like FHIRCodeableConcept are plain JSON
+export function toJsonInput(value: object | undefined): Prisma.InputJsonValue | undefined {
+  return value as Prisma.InputJsonValue | undefined;
+}
+
 // Transform Database Patient to FHIR Patient
 export function transformPatientFromDB(dbPatient: any, options: { includeOrganizations?: boolean } = {}): FHIRPatient {
   const patient: FHIRPatient = {
@@ -52,7 +355,7 @@ export function transformPatientFromDB(dbPatient: any, options: { includeOrganiz
     id: dbPatient.id,
     meta: {
       lastUpdated: dbPatient.updatedAt.toISOString(),
-      versionId: "1"
+      versionId: String(dbPatient.versionId ?? 1)
     },
     identifier: dbPatient.identifier,
     active: dbPatient.active,
@@ -120,7 +423,7 @@ export function transformPractitionerFromDB(dbPractitioner: any, options: { incl
     id: dbPractitioner.id,
     meta: {
       lastUpdated: dbPractitioner.updatedAt.toISOString(),
-      versionId: "1"
+      versionId: String(dbPractitioner.versionId ?? 1)
     },
     identifier: dbPractitioner.identifier,
     active: dbPractitioner.active,
@@ -186,7 +489,7 @@ export function transformOrganizationFromDB(dbOrganization: any): FHIROrganizati
     id: dbOrganization.id,
     meta: {
       lastUpdated: dbOrganization.updatedAt.toISOString(),
-      versionId: "1"
+      versionId: String(dbOrganization.versionId ?? 1)
     },
     identifier: dbOrganization.identifier ? [{ value: dbOrganization.identifier }] : [],
     active: dbOrganization.active,
@@ -197,10 +500,11 @@ export function transformOrganizationFromDB(dbOrganization: any): FHIROrganizati
   };
 }
 
-// Transform FHIR Organization to Database format
-export function transformOrganizationToDB(fhirOrganization: FHIROrganization): any {
+// Transform FHIR Organization to Database format. Updates pass the stored
+// identifier so a body without one keeps it instead of getting a new one.
+export function transformOrganizationToDB(fhirOrganization: FHIROrganization, currentIdentifier?: string): any {
   return {
-    identifier: fhirOrganization.identifier?.[0]?.value || uuidv4(),
+    identifier: fhirOrganization.identifier?.[0]?.value || currentIdentifier || uuidv4(),
     active: fhirOrganization.active ?? true,
     name: fhirOrganization.name || '',
     type: fhirOrganization.type?.[0]?.text,
@@ -216,7 +520,7 @@ export function transformAppointmentFromDB(dbAppointment: any): FHIRAppointment
     id: dbAppointment.id,
     meta: {
       lastUpdated: dbAppointment.updatedAt.toISOString(),
-      versionId: "1"
+      versionId: String(dbAppointment.versionId ?? 1)
     },
     identifier: dbAppointment.identifier || [],
     status: dbAppointment.status,
@@ -232,13 +536,15 @@ export function transformAppointmentFromDB(dbAppointment: any): FHIRAppointment
     participant: [
       {
         actor: {
-          reference: `Patient/${dbAppointment.patientId}`
+          reference: `Patient/${dbAppointment.patientId}`,
+          ...(dbAppointment.patient && { display: formatHumanName(dbAppointment.patient.name) })
         },
         status: "accepted"
       },
       {
         actor: {
-          reference: `Practitioner/${dbAppointment.practitionerId}`
+          reference: `Practitioner/${dbAppointment.practitionerId}`,
+          ...(dbAppointment.practitioner && { display: formatHumanName(dbAppointment.practitioner.name) })
         },
         status: "accepted"
       }
@@ -264,4 +570,515 @@ export function transformAppointmentToDB(fhirAppointment: FHIRAppointment, patie
     practitionerId,
     organizationId
   };
-}
\ No newline at end of file
+}
+
+// Transform Database Encounter to FHIR Encounter
+export function transformEncounterFromDB(dbEncounter: any): FHIREncounter {
+  return {
+    resourceType: "Encounter",
+    id: dbEncounter.id,
+    meta: {
+      lastUpdated: dbEncounter.updatedAt.toISOString(),
+      versionId: "1"
+    },
+    identifier: dbEncounter.identifier || [],
+    status: dbEncounter.status,
+    class: dbEncounter.class,
+    type: dbEncounter.type || [],
+    reasonCode: dbEncounter.reasonCode || [],
+    period: dbEncounter.period || undefined,
+    diagnosis: dbEncounter.diagnosis || [],
+    subject: {
+      reference: `Patient/${dbEncounter.patientId}`
+    },
+    participant: [
+      {
+        individual: {
+          reference: `Practitioner/${dbEncounter.practitionerId}`
+        }
+      }
+    ],
+    ...(dbEncounter.appointmentId && {
+      appointment: [
+        {
+          reference: `Appointment/${dbEncounter.appointmentId}`
+        }
+      ]
+    }),
+    serviceProvider: {
+      reference: `Organization/${dbEncounter.organizationId}`
+    }
+  };
+}
+
+// Transform FHIR Encounter to Database format
+export function transformEncounterToDB(fhirEncounter: FHIREncounter, patientId: string, practitionerId: string, organizationId: string, appointmentId?: string): any {
+  return {
+    identifier: fhirEncounter.identifier || [],
+    status: fhirEncounter.status,
+    class: fhirEncounter.class,
+    type: fhirEncounter.type || [],
+    reasonCode: fhirEncounter.reasonCode || [],
+    period: fhirEncounter.period,
+    diagnosis: fhirEncounter.diagnosis || [],
+    patientId,
+    practitionerId,
+    organizationId,
+    appointmentId: appointmentId || null
+  };
+}
+
+// Transform Database Observation to FHIR Observation
+export function transformObservationFromDB(dbObservation: any): FHIRObservation {
+  return {
+    resourceType: "Observation",
+    id: dbObservation.id,
+    meta: {
+      lastUpdated: dbObservation.updatedAt.toISOString(),
+      versionId: "1"
+    },
+    identifier: dbObservation.identifier || [],
+    status: dbObservation.status,
+    category: dbObservation.category || [],
+    code: dbObservation.code,
+    subject: {
+      reference: `Patient/${dbObservation.patientId}`
+    },
+    ...(dbObservation.encounterId && {
+      encounter: {
+        reference: `Encounter/${dbObservation.encounterId}`
+      }
+    }),
+    effectiveDateTime: dbObservation.effectiveDateTime?.toISOString(),
+    issued: dbObservation.issued.toISOString(),
+    ...(dbObservation.valueQuantity && { valueQuantity: dbObservation.valueQuantity }),
+    ...(dbObservation.valueCodeableConcept && { valueCodeableConcept: dbObservation.valueCodeableConcept }),
+    ...(dbObservation.valueString && { valueString: dbObservation.valueString }),
+    interpretation: dbObservation.interpretation || [],
+    note: dbObservation.note || [],
+    performer: [
+      {
+        reference: `Organization/${dbObservation.organizationId}`
+      }
+    ]
+  };
+}
+
+// Transform FHIR Observation to Database format
+export function transformObservationToDB(fhirObservation: FHIRObservation, patientId: string, organizationId: string, encounterId?: string): any {
+  return {
+    identifier: fhirObservation.identifier || [],
+    status: fhirObservation.status,
+    category: fhirObservation.category || [],
+    code: fhirObservation.code,
+    patientId,
+    encounterId: encounterId || null,
+    effectiveDateTime: fhirObservation.effectiveDateTime ? new Date(fhirObservation.effectiveDateTime) : null,
+    valueQuantity: fhirObservation.valueQuantity,
+    valueCodeableConcept: fhirObservation.valueCodeableConcept,
+    valueString: fhirObservation.valueString,
+    interpretation: fhirObservation.interpretation || [],
+    note: fhirObservation.note || [],
+    organizationId
+  };
+}
+
+// Transform Database Medication to FHIR Medication
+export function transformMedicationFromDB(dbMedication: any): FHIRMedication {
+  return {
+    resourceType: "Medication",
+    id: dbMedication.id,
+    meta: {
+      lastUpdated: dbMedication.updatedAt.toISOString(),
+      versionId: "1"
+    },
+    identifier: dbMedication.identifier || [],
+    code: dbMedication.code,
+    status: dbMedication.status,
+    manufacturer: dbMedication.manufacturer || undefined,
+    form: dbMedication.form || undefined,
+    ingredient: dbMedication.ingredient || []
+  };
+}
+
+// Transform FHIR Medication to Database format
+export function transformMedicationToDB(fhirMedication: FHIRMedication, organizationId: string): any {
+  return {
+    identifier: fhirMedication.identifier || [],
+    code: fhirMedication.code,
+    status: fhirMedication.status || 'active',
+    manufacturer: fhirMedication.manufacturer,
+    form: fhirMedication.form,
+    ingredient: fhirMedication.ingredient || [],
+    organizationId
+  };
+}
+
+// Transform Database MedicationRequest to FHIR MedicationRequest
+export function transformMedicationRequestFromDB(dbMedicationRequest: any): FHIRMedicationRequest {
+  return {
+    resourceType: "MedicationRequest",
+    id: dbMedicationRequest.id,
+    meta: {
+      lastUpdated: dbMedicationRequest.updatedAt.toISOString(),
+      versionId: "1"
+    },
+    identifier: dbMedicationRequest.identifier || [],
+    status: dbMedicationRequest.status,
+    intent: dbMedicationRequest.intent,
+    ...(dbMedicationRequest.medicationReference && {
+      medicationReference: {
+        reference: `Medication/${dbMedicationRequest.medicationReference}`
+      }
+    }),
+    ...(dbMedicationRequest.medicationCodeable && {
+      medicationCodeableConcept: dbMedicationRequest.medicationCodeable
+    }),
+    subject: {
+      reference: `Patient/${dbMedicationRequest.patientId}`
+    },
+    requester: {
+      reference: `Practitioner/${dbMedicationRequest.practitionerId}`
+    },
+    authoredOn: dbMedicationRequest.authoredOn.toISOString(),
+    reasonCode: dbMedicationRequest.reasonCode || [],
+    dosageInstruction: dbMedicationRequest.dosageInstruction || [],
+    dispenseRequest: dbMedicationRequest.dispenseRequest || undefined
+  };
+}
+
+// Transform FHIR MedicationRequest to Database format
+export function transformMedicationRequestToDB(fhirMedicationRequest: FHIRMedicationRequest, patientId: string, practitionerId: string, organizationId: string, medicationId?: string): any {
+  return {
+    identifier: fhirMedicationRequest.identifier || [],
+    status: fhirMedicationRequest.status,
+    intent: fhirMedicationRequest.intent,
+    medicationReference: medicationId || null,
+    medicationCodeable: fhirMedicationRequest.medicationCodeableConcept,
+    patientId,
+    practitionerId,
+    organizationId,
+    authoredOn: fhirMedicationRequest.authoredOn ? new Date(fhirMedicationRequest.authoredOn) : new Date(),
+    reasonCode: fhirMedicationRequest.reasonCode || [],
+    dosageInstruction: fhirMedicationRequest.dosageInstruction || [],
+    dispenseRequest: fhirMedicationRequest.dispenseRequest
+  };
+}
+
+// Transform Database ServiceRequest to FHIR ServiceRequest
+export function transformServiceRequestFromDB(dbServiceRequest: any): FHIRServiceRequest {
+  return {
+    resourceType: "ServiceRequest",
+    id: dbServiceRequest.id,
+    meta: {
+      lastUpdated: dbServiceRequest.updatedAt.toISOString(),
+      versionId: "1"
+    },
+    identifier: dbServiceRequest.identifier || [],
+    status: dbServiceRequest.status,
+    intent: dbServiceRequest.intent,
+    category: dbServiceRequest.category || [],
+    code: dbServiceRequest.code,
+    priority: dbServiceRequest.priority || undefined,
+    subject: {
+      reference: `Patient/${dbServiceRequest.patientId}`
+    },
+    ...(dbServiceRequest.encounterId && {
+      encounter: {
+        reference: `Encounter/${dbServiceRequest.encounterId}`
+      }
+    }),
+    requester: {
+      reference: `Practitioner/${dbServiceRequest.practitionerId}`
+    },
+    authoredOn: dbServiceRequest.authoredOn.toISOString(),
+    reasonCode: dbServiceRequest.reasonCode || [],
+    note: dbServiceRequest.note || []
+  };
+}
+
+// Transform FHIR ServiceRequest to Database format
+export function transformServiceRequestToDB(fhirServiceRequest: FHIRServiceRequest, patientId: string, practitionerId: string, organizationId: string, encounterId?: string): any {
+  return {
+    identifier: fhirServiceRequest.identifier || [],
+    status: fhirServiceRequest.status,
+    intent: fhirServiceRequest.intent,
+    category: fhirServiceRequest.category || [],
+    code: fhirServiceRequest.code,
+    priority: fhirServiceRequest.priority,
+    patientId,
+    practitionerId,
+    organizationId,
+    encounterId: encounterId || null,
+    authoredOn: fhirServiceRequest.authoredOn ? new Date(fhirServiceRequest.authoredOn) : new Date(),
+    reasonCode: fhirServiceRequest.reasonCode || [],
+    note: fhirServiceRequest.note || []
+  };
+}
+
+// Transform Database DiagnosticReport to FHIR DiagnosticReport
+export function transformDiagnosticReportFromDB(dbDiagnosticReport: any): FHIRDiagnosticReport {
+  return {
+    resourceType: "DiagnosticReport",
+    id: dbDiagnosticReport.id,
+    meta: {
+      lastUpdated: dbDiagnosticReport.updatedAt.toISOString(),
+      versionId: "1"
+    },
+    identifier: dbDiagnosticReport.identifier || [],
+    status: dbDiagnosticReport.status,
+    category: dbDiagnosticReport.category || [],
+    code: dbDiagnosticReport.code,
+    subject: {
+      reference: `Patient/${dbDiagnosticReport.patientId}`
+    },
+    effectiveDateTime: dbDiagnosticReport.effectiveDateTime?.toISOString(),
+    issued: dbDiagnosticReport.issued.toISOString(),
+    performer: [
+      {
+        reference: `Organization/${dbDiagnosticReport.organizationId}`
+      }
+    ],
+    result: dbDiagnosticReport.result || [],
+    conclusion: dbDiagnosticReport.conclusion || undefined
+  };
+}
+
+// Transform FHIR DiagnosticReport to Database format
+export function transformDiagnosticReportToDB(fhirDiagnosticReport: FHIRDiagnosticReport, patientId: string, organizationId: string): any {
+  return {
+    identifier: fhirDiagnosticReport.identifier || [],
+    status: fhirDiagnosticReport.status,
+    category: fhirDiagnosticReport.category || [],
+    code: fhirDiagnosticReport.code,
+    patientId,
+    effectiveDateTime: fhirDiagnosticReport.effectiveDateTime ? new Date(fhirDiagnosticReport.effectiveDateTime) : null,
+    issued: fhirDiagnosticReport.issued ? new Date(fhirDiagnosticReport.issued) : new Date(),
+    result: (fhirDiagnosticReport.result || []).map(reference => ({ reference: reference.reference })),
+    conclusion: fhirDiagnosticReport.conclusion,
+    organizationId
+  };
+}
+
+// Referral workflow statuses mapped onto FHIR ServiceRequest.status
+const referralStatusToFHIR: Record<string, string> = {
+  draft: "draft",
+  active: "active",
+  accepted: "active",
+  declined: "revoked",
+  completed: "completed",
+  cancelled: "revoked"
+};
+
+// Transform Database Referral to a FHIR ServiceRequest (referral category)
+export function transformReferralFromDB(dbReferral: any): FHIRServiceRequest {
+  const performer = [];
+  if (dbReferral.receivingOrganizationId) {
+    performer.push({ reference: `Organization/${dbReferral.receivingOrganizationId}` });
+  }
+  if (dbReferral.receivingPractitionerId) {
+    performer.push({ reference: `Practitioner/${dbReferral.receivingPractitionerId}` });
+  }
+
+  return {
+    resourceType: "ServiceRequest",
+    id: dbReferral.id,
+    meta: {
+      lastUpdated: dbReferral.updatedAt.toISOString(),
+      versionId: "1"
+    },
+    identifier: dbReferral.identifier || [],
+    status: referralStatusToFHIR[dbReferral.status] || "unknown",
+    intent: "order",
+    category: [
+      {
+        coding: [
+          {
+            system: "http://snomed.info/sct",
+            code: "3457005",
+            display: "Patient referral"
+          }
+        ]
+      }
+    ],
+    code: dbReferral.requestedService || undefined,
+    priority: dbReferral.priority || undefined,
+    subject: {
+      reference: `Patient/${dbReferral.patientId}`
+    },
+    requester: {
+      reference: `Practitioner/${dbReferral.referringPractitionerId}`
+    },
+    performer,
+    authoredOn: dbReferral.createdAt.toISOString(),
+    reasonCode: dbReferral.reasonCode || [],
+    note: dbReferral.description ? [{ text: dbReferral.description }] : [],
+    extension: [
+      {
+        url: "http://wellplace.com/fhir/StructureDefinition/referral-status",
+        valueCode: dbReferral.status
+      },
+      {
+        url: "http://wellplace.com/fhir/StructureDefinition/referral-type",
+        valueCode: dbReferral.type
+      },
+      {
+        url: "http://wellplace.com/fhir/StructureDefinition/referring-organization",
+        valueReference: {
+          reference: `Organization/${dbReferral.referringOrganizationId}`
+        }
+      }
+    ]
+  };
+}
+
+// Invoice statuses mapped onto FHIR Invoice.status
+const invoiceStatusToFHIR: Record<string, string> = {
+  draft: "draft",
+  issued: "issued",
+  overdue: "issued",
+  paid: "balanced",
+  cancelled: "cancelled"
+};
+
+// Transform Database Invoice to FHIR Invoice
+export function transformInvoiceFromDB(dbInvoice: any): FHIRInvoice {
+  const lineItems: any[] = dbInvoice.lineItems || [];
+
+  return {
+    resourceType: "Invoice",
+    id: dbInvoice.id,
+    meta: {
+      lastUpdated: dbInvoice.updatedAt.toISOString(),
+      versionId: "1"
+    },
+    identifier: [
+      {
+        system: "http://wellplace.com/fhir/invoice-number",
+        value: dbInvoice.invoiceNumber
+      }
+    ],
+    status: invoiceStatusToFHIR[dbInvoice.status] || "entered-in-error",
+    subject: {
+      reference: `Patient/${dbInvoice.patientId}`
+    },
+    issuer: {
+      reference: `Organization/${dbInvoice.organizationId}`
+    },
+    date: dbInvoice.issueDate.toISOString(),
+    lineItem: lineItems.map((item, index) => ({
+      sequence: index + 1,
+      chargeItemCodeableConcept: {
+        ...(item.code && { coding: [{ code: item.code }] }),
+        text: item.description
+      },
+      priceComponent: [
+        {
+          type: "base",
+          factor: item.quantity,
+          amount: {
+            value: item.amount,
+            currency: dbInvoice.currency
+          }
+        }
+      ]
+    })),
+    totalNet: {
+      value: dbInvoice.totalAmount,
+      currency: dbInvoice.currency
+    },
+    totalGross: {
+      value: dbInvoice.totalAmount,
+      currency: dbInvoice.currency
+    },
+    paymentTerms: `Due by ${dbInvoice.dueDate.toISOString().split("T")[0]}`,
+    note: dbInvoice.notes ? [{ text: dbInvoice.notes }] : [],
+    extension: [
+      {
+        url: "http://wellplace.com/fhir/StructureDefinition/invoice-status",
+        valueCode: dbInvoice.status
+      },
+      {
+        url: "http://wellplace.com/fhir/StructureDefinition/invoice-paid-amount",
+        valueMoney: {
+          value: dbInvoice.paidAmount,
+          currency: dbInvoice.currency
+        }
+      },
+      {
+        url: "http://wellplace.com/fhir/StructureDefinition/invoice-due-date",
+        valueDate: dbInvoice.dueDate.toISOString().split("T")[0]
+      },
+      ...(dbInvoice.paidDate ? [{
+        url: "http://wellplace.com/fhir/StructureDefinition/invoice-paid-date",
+        valueDateTime: dbInvoice.paidDate.toISOString()
+      }] : [])
+    ]
+  };
+}
+
+// Display text for a HumanName, or for the official (else first) entry of a HumanName array
+export function formatHumanName(name: any): string | undefined {
+  const humanName = Array.isArray(name) ? (name.find(n => n?.use === "official") || name[0]) : name;
+  if (!humanName) {
+    return undefined;
+  }
+
+  return humanName.text || [...(humanName.given || []), humanName.family].filter(Boolean).join(" ") || undefined;
+}
+
+// Transform Database Staff to a FHIR PractitionerRole. Non-clinical staff have
+// no Practitioner resource, so the person is carried as a display-only reference.
+export function transformStaffToPractitionerRole(dbStaff: any): FHIRPractitionerRole {
+  const displayName = formatHumanName(dbStaff.name);
+
+  return {
+    resourceType: "PractitionerRole",
+    id: dbStaff.id,
+    meta: {
+      lastUpdated: dbStaff.updatedAt.toISOString(),
+      versionId: "1"
+    },
+    identifier: [
+      {
+        system: "http://wellplace.com/fhir/employee-id",
+        value: dbStaff.employeeId
+      }
+    ],
+    active: dbStaff.status === "active",
+    period: {
+      start: dbStaff.hireDate.toISOString().split("T")[0]
+    },
+    practitioner: {
+      display: displayName
+    },
+    organization: {
+      reference: `Organization/${dbStaff.organizationId}`
+    },
+    code: [
+      {
+        coding: [
+          {
+            system: "http://wellplace.com/fhir/staff-position",
+            code: dbStaff.position
+          }
+        ],
+        text: dbStaff.position
+      }
+    ],
+    telecom: [
+      ...(dbStaff.phone ? [{ system: "phone", value: dbStaff.phone, use: "work" }] : []),
+      ...(dbStaff.email ? [{ system: "email", value: dbStaff.email, use: "work" }] : [])
+    ],
+    extension: [
+      {
+        url: "http://wellplace.com/fhir/StructureDefinition/staff-status",
+        valueCode: dbStaff.status
+      },
+      ...(dbStaff.department ? [{
+        url: "http://wellplace.com/fhir/StructureDefinition/staff-department",
+        valueString: dbStaff.department
+      }] : [])
+    ]
+  };
+}
@@ -0,0 +1,198 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { FastifyRequest } from 'fastify';
+import { FHIRBundle, FHIRBundleEntry, FHIRResource } from '../types/fhir.js';
+import { createBundle, createSearchLinks, searchResultParamsSchema, SearchPaging } from './fhir.js';
+
+// Resource types whose prior versions are kept in resource_history
+export type VersionedResourceType = 'Patient' | 'Practitioner' | 'Organization' | 'Appointment';
+
+// Query string schema properties for _history interactions (paging only)
+export const historyParamsSchema = {
+  _count: searchResultParamsSchema._count,
+  _offset: searchResultParamsSchema._offset
+};
+
+// Prisma data fragment that bumps meta.versionId on update
+export const NEXT_VERSION = { versionId: { increment: 1 } };
+
+// The resource held by a resource_history row
+function historyResource(row: { resource: Prisma.JsonValue }): FHIRResource {
+  return row.resource as unknown as FHIRResource;
+}
+
+// Snapshot the current version of a resource before it is overwritten
+export async function saveResourceVersion(
+  tx: Prisma.TransactionClient,
+  resource: FHIRResource,
+  organizationId?: string,
+  replacedBy?: string
+) {
+  return tx.resourceHistory.create({
+    data: {
+      resourceType: resource.resourceType,
+      resourceId: resource.id!,
+      versionId: Number(resource.meta?.versionId ?? 1),
+      resource: resource as any,
+      lastUpdated: new Date(resource.meta?.lastUpdated ?? Date.now()),
+      organizationId,
+      replacedBy
+    }
+  });
+}
+
+// A specific version of a resource (vread): the current version, or one from history
+export async function getResourceVersion(prisma: PrismaClient, current: FHIRResource, versionId: string): Promise<FHIRResource | null> {
+  if (current.meta?.versionId === versionId) {
+    return current;
+  }
+
+  const version = Number(versionId);
+  if (!Number.isInteger(version)) {
+    return null;
+  }
+
+  const row = await prisma.resourceHistory.findUnique({
+    where: {
+      resourceType_resourceId_versionId: {
+        resourceType: current.resourceType,
+        resourceId: current.id!,
+        versionId: version
+      }
+    }
+  });
+
+  return row ? historyResource(row) : null;
+}
+
+// One page of a resource's versions, newest first: the current version followed by prior ones
+export async function getInstanceHistory(
+  prisma: PrismaClient,
+  current: FHIRResource,
+  paging: SearchPaging
+): Promise<{ versions: FHIRResource[]; total: number }> {
+  const where = { resourceType: current.resourceType, resourceId: current.id };
+  const includeCurrent = paging.skip === 0 && paging.take > 0;
+
+  const [rows, priorCount] = await Promise.all([
+    prisma.resourceHistory.findMany({
+      where,
+      orderBy: { versionId: 'desc' },
+      skip: Math.max(paging.skip - 1, 0),
+      take: includeCurrent ? paging.take - 1 : paging.take
+    }),
+    prisma.resourceHistory.count({ where })
+  ]);
+
+  return {
+    versions: [...(includeCurrent ? [current] : []), ...rows.map(historyResource)],
+    total: priorCount + 1
+  };
+}
+
+// One page of all versions of a resource type, newest first. The current
+// resources come from `current.table` (rows matching `current.access`, loaded
+// with `current.load`) and prior versions from resource_history; both are
+// merged, ordered and paged in PostgreSQL.
+export async function getTypeHistory(
+  prisma: PrismaClient,
+  resourceType: VersionedResourceType,
+  organizationIds: string[],
+  current: {
+    table: string;
+    access: (organizationIds: string[]) => Prisma.Sql;
+    load: (ids: string[]) => Promise<FHIRResource[]>;
+  },
+  paging: SearchPaging
+): Promise<{ versions: FHIRResource[]; total: number }> {
+  if (organizationIds.length === 0) {
+    return { versions: [], total: 0 };
+  }
+
+  const versions = Prisma.sql`
+    SELECT 'current' AS source, r.id, r."updatedAt" AS "lastUpdated"
+    FROM ${Prisma.raw(`"${current.table}"`)} r
+    WHERE ${current.access(organizationIds)}
+    UNION ALL
+    SELECT 'history' AS source, h.id, h."lastUpdated"
+    FROM resource_history h
+    WHERE h."resourceType" = ${resourceType} AND h."organizationId" IN (${Prisma.join(organizationIds)})
+  `;
+
+  const [rows, countRows] = await Promise.all([
+    prisma.$queryRaw<{ source: 'current' | 'history'; id: string }[]>`SELECT v.source, v.id FROM (${versions}) v ORDER BY v."lastUpdated" DESC, v.id LIMIT ${paging.take} OFFSET ${paging.skip}`,
+    prisma.$queryRaw<{ total: number }[]>`SELECT COUNT(*)::int AS total FROM (${versions}) v`
+  ]);
+
+  const idsFrom = (source: 'current' | 'history') => rows.filter(row => row.source === source).map(row => row.id);
+  const [currentResources, historyRows] = await Promise.all([
+    current.load(idsFrom('current')),
+    prisma.resourceHistory.findMany({ where: { id: { in: idsFrom('history') } } })
+  ]);
+
+  const resourcesById = new Map<string, FHIRResource>([
+    ...currentResources.map(resource => [`current:${resource.id}`, resource] as const),
+    ...historyRows.map(row => [`history:${row.id}`, historyResource(row)] as const)
+  ]);
+
+  return {
+    versions: rows
+      .map(row => resourcesById.get(`${row.source}:${row.id}`))
+      .filter((resource): resource is FHIRResource => resource !== undefined),
+    total: countRows[0]?.total ?? 0
+  };
+}
+
+// Weak ETag for a resource version, as FHIR uses: W/"<versionId>"
+export function getETag(versionId: string | number): string {
+  return `W/"${versionId}"`;
+}
+
+// ETag and Last-Modified response headers for a versioned resource
+export function versionHeaders(resource: FHIRResource): Record<string, string> {
+  return {
+    ETag: getETag(resource.meta?.versionId ?? 1),
+    ...(resource.meta?.lastUpdated && { 'Last-Modified': new Date(resource.meta.lastUpdated).toUTCString() })
+  };
+}
+
+// If-Match precondition for an update: passes when the header is absent, is "*",
+// or names the current version (W/"3", "3" and 3 are all accepted)
+export function matchesIfMatch(ifMatch: string | undefined, versionId: number): boolean {
+  if (!ifMatch) {
+    return true;
+  }
+
+  return ifMatch.split(',').some(tag => {
+    const value = tag.trim().replace(/^W\//, '').replace(/"/g, '');
+    return value === '*' || value === String(versionId);
+  });
+}
+
+// True when a versioned update lost a race with another update of the same
+// version: both tried to archive it and hit the resource_history unique key
+export function isVersionConflict(error: any): boolean {
+  return error?.code === 'P2002';
+}
+
+// History Bundle; version 1 is reported as the create and later versions as updates
+export function createHistoryBundle(request: FastifyRequest, versions: FHIRResource[], total: number, paging: SearchPaging): FHIRBundle {
+  const entries: FHIRBundleEntry[] = versions.map(resource => {
+    const created = resource.meta?.versionId === '1';
+
+    return {
+      fullUrl: `${request.protocol}://${request.hostname}/fhir/${resource.resourceType}/${resource.id}`,
+      resource,
+      request: {
+        method: created ? 'POST' : 'PUT',
+        url: created ? resource.resourceType : `${resource.resourceType}/${resource.id}`
+      },
+      response: {
+        status: created ? '201 Created' : '200 OK',
+        etag: getETag(resource.meta?.versionId ?? 1),
+        ...(resource.meta?.lastUpdated && { lastModified: resource.meta.lastUpdated })
+      }
+    };
+  });
+
+  return createBundle("history", entries, total, createSearchLinks(request, paging, total));
+}
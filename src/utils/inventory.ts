@@ -0,0 +1,179 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { InventoryAlerts, InventoryTransactionRequest } from '../types/inventory.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Signed change to currentStock for a ledger entry. "in" and "out" carry a
+// positive quantity; "adjustment" carries the signed correction itself.
+export function getStockDelta(type: string, quantity: number): number {
+  switch (type) {
+    case 'in':
+      return quantity;
+    case 'out':
+      return -quantity;
+    default:
+      return quantity;
+  }
+}
+
+// Validate a ledger entry beyond what the JSON schema can express
+export function validateInventoryTransaction(transaction: InventoryTransactionRequest): string | null {
+  if (!Number.isInteger(transaction.quantity)) {
+    return 'quantity must be a whole number';
+  }
+  if (transaction.type === 'adjustment') {
+    if (transaction.quantity === 0) {
+      return 'Adjustment quantity must not be zero';
+    }
+  } else if (transaction.quantity <= 0) {
+    return `quantity must be greater than 0 for "${transaction.type}" transactions`;
+  }
+  return null;
+}
+
+// Record a ledger entry and move currentStock by the same amount. Must run
+// inside a Prisma transaction; the conditional update keeps stock from going
+// negative even when concurrent requests touch the same item. medicationRequestId
+// marks the entry as a dispense of that prescription (see $dispense).
+export async function applyInventoryTransaction(
+  tx: Prisma.TransactionClient,
+  itemId: string,
+  transaction: InventoryTransactionRequest,
+  performedBy: string,
+  medicationRequestId?: string
+) {
+  const delta = getStockDelta(transaction.type, transaction.quantity);
+
+  const { count } = await tx.inventoryItem.updateMany({
+    where: {
+      id: itemId,
+      ...(delta < 0 && { currentStock: { gte: -delta } })
+    },
+    data: {
+      currentStock: { increment: delta }
+    }
+  });
+
+  if (count === 0) {
+    return { error: 'Insufficient stock: transaction would make currentStock negative' };
+  }
+
+  const ledgerEntry = await tx.inventoryTransaction.create({
+    data: {
+      itemId,
+      type: transaction.type,
+      quantity: transaction.quantity,
+      reason: transaction.reason,
+      reference: transaction.reference,
+      medicationRequestId,
+      performedBy,
+      date: transaction.date ? new Date(transaction.date) : undefined,
+      notes: transaction.notes
+    }
+  });
+
+  const item = await tx.inventoryItem.findUniqueOrThrow({ where: { id: itemId } });
+
+  return { item, transaction: ledgerEntry };
+}
+
+// Quantity to order to bring an item back up to maximumStock, or to
+// minimumStock when no maximum is configured
+export function getSuggestedReorderQuantity(item: { currentStock: number; minimumStock: number; maximumStock: number | null }): number {
+  const target = item.maximumStock ?? item.minimumStock;
+  return Math.max(target - item.currentStock, 0);
+}
+
+// Low-stock and expiry alerts grouped per organization. Items already past
+// their expiration date are included in `expiring` with a negative daysUntilExpiry.
+export async function getInventoryAlerts(
+  prisma: PrismaClient,
+  organizationIds: string[],
+  expiryWindowDays: number,
+  now: Date = new Date()
+): Promise<InventoryAlerts[]> {
+  const expiryCutoff = new Date(now.getTime() + expiryWindowDays * DAY_MS);
+
+  const [lowStockItems, expiringItems] = await Promise.all([
+    prisma.inventoryItem.findMany({
+      where: {
+        organizationId: { in: organizationIds },
+        currentStock: { lt: prisma.inventoryItem.fields.minimumStock }
+      },
+      orderBy: { name: 'asc' }
+    }),
+    prisma.inventoryItem.findMany({
+      where: {
+        organizationId: { in: organizationIds },
+        currentStock: { gt: 0 },
+        expirationDate: { lte: expiryCutoff }
+      },
+      orderBy: { expirationDate: 'asc' }
+    })
+  ]);
+
+  const alertsByOrganization = new Map<string, InventoryAlerts>(
+    organizationIds.map(organizationId => [organizationId, { organizationId, lowStock: [], expiring: [] }])
+  );
+
+  for (const item of lowStockItems) {
+    alertsByOrganization.get(item.organizationId)!.lowStock.push({
+      itemId: item.id,
+      name: item.name,
+      category: item.category,
+      currentStock: item.currentStock,
+      minimumStock: item.minimumStock,
+      maximumStock: item.maximumStock,
+      suggestedReorderQuantity: getSuggestedReorderQuantity(item)
+    });
+  }
+
+  for (const item of expiringItems) {
+    alertsByOrganization.get(item.organizationId)!.expiring.push({
+      itemId: item.id,
+      name: item.name,
+      category: item.category,
+      currentStock: item.currentStock,
+      expirationDate: item.expirationDate!.toISOString(),
+      daysUntilExpiry: Math.ceil((item.expirationDate!.getTime() - now.getTime()) / DAY_MS)
+    });
+  }
+
+  return Array.from(alertsByOrganization.values());
+}
+
+// Medication inventory items that can fill a prescription. Items are matched by
+// SKU against the medication's coded values, or by name against its text/display,
+// and returned earliest-expiring first so stock is dispensed first-expired-first-out.
+export async function findMedicationInventoryItems(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  medicationCode: any,
+  now: Date = new Date()
+) {
+  const codings: any[] = medicationCode?.coding || [];
+  const codes = codings.map(coding => coding.code).filter(Boolean);
+  const names = [medicationCode?.text, ...codings.map(coding => coding.display)].filter(Boolean);
+
+  if (codes.length === 0 && names.length === 0) {
+    return [];
+  }
+
+  return tx.inventoryItem.findMany({
+    where: {
+      organizationId,
+      category: 'medication',
+      OR: [
+        ...(codes.length > 0 ? [{ sku: { in: codes } }] : []),
+        ...names.map(name => ({ name: { equals: name, mode: 'insensitive' as const } }))
+      ],
+      AND: [
+        { OR: [{ expirationDate: null }, { expirationDate: { gt: now } }] }
+      ]
+    },
+    orderBy: [
+      { expirationDate: { sort: 'asc', nulls: 'last' } },
+      { createdAt: 'asc' }
+    ]
+  });
+}
@@ -0,0 +1,272 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { createOperationOutcome } from './fhir.js';
+import { FHIRResource } from '../types/fhir.js';
+
+export const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+export const FHIR_JSON_CONTENT_TYPE = 'application/fhir+json';
+
+// A JSON Patch (RFC 6902) operation
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  value?: any;
+  from?: string;
+}
+
+// Request body schema for a JSON Patch document
+export const jsonPatchSchema = {
+  type: "array",
+  minItems: 1,
+  items: {
+    type: "object",
+    required: ["op", "path"],
+    properties: {
+      op: { type: "string", enum: ["add", "remove", "replace", "move", "copy", "test"] },
+      path: { type: "string" },
+      from: { type: "string" },
+      value: {}
+    }
+  }
+};
+
+// preValidation hook for PATCH routes. Only JSON Patch is supported: a FHIRPath
+// Patch (a Parameters resource, sent as application/fhir+json) gets 415 rather
+// than a schema error against the JSON Patch body schema.
+export async function rejectFhirPathPatch(request: FastifyRequest, reply: FastifyReply) {
+  const contentType = request.headers['content-type']?.split(';')[0].trim();
+
+  if (contentType === FHIR_JSON_CONTENT_TYPE || (request.body as FHIRResource | undefined)?.resourceType === 'Parameters') {
+    return reply.code(415).send(createOperationOutcome('error', 'not-supported', `FHIRPath Patch is not supported; send a JSON Patch document as ${JSON_PATCH_CONTENT_TYPE}`));
+  }
+}
+
+// Reference tokens of a JSON Pointer ("/name/0/family" is ["name", "0", "family"])
+function parsePointer(pointer: string): string[] | null {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    return null;
+  }
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function isContainer(value: any): boolean {
+  return value !== null && typeof value === 'object';
+}
+
+function isArrayIndex(array: any[], token: string, allowEnd: boolean): boolean {
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    return false;
+  }
+  return Number(token) < array.length + (allowEnd ? 1 : 0);
+}
+
+function hasMember(container: any, token: string): boolean {
+  return Array.isArray(container)
+    ? isArrayIndex(container, token, false)
+    : Object.prototype.hasOwnProperty.call(container, token);
+}
+
+// The container holding the value a pointer refers to, or null when a step is missing
+function getParent(document: any, tokens: string[]): any {
+  let current = document;
+  for (const token of tokens.slice(0, -1)) {
+    if (!isContainer(current) || !hasMember(current, token)) {
+      return null;
+    }
+    current = current[token];
+  }
+  return isContainer(current) ? current : null;
+}
+
+function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key]));
+}
+
+// Apply a JSON Patch document to a copy of a resource. Operations apply in
+// order and the patch fails as a whole if any of them fails.
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): { result?: T; error?: string } {
+  let result: any = structuredClone(document);
+
+  const read = (tokens: string[]): { found: boolean; value?: any } => {
+    if (tokens.length === 0) {
+      return { found: true, value: result };
+    }
+    const parent = getParent(result, tokens);
+    const key = tokens[tokens.length - 1];
+    return parent && hasMember(parent, key) ? { found: true, value: parent[key] } : { found: false };
+  };
+
+  const add = (tokens: string[], value: any): boolean => {
+    if (tokens.length === 0) {
+      result = value;
+      return true;
+    }
+    const parent = getParent(result, tokens);
+    const key = tokens[tokens.length - 1];
+    if (!parent) {
+      return false;
+    }
+    if (Array.isArray(parent)) {
+      if (key === '-') {
+        parent.push(value);
+        return true;
+      }
+      if (!isArrayIndex(parent, key, true)) {
+        return false;
+      }
+      parent.splice(Number(key), 0, value);
+      return true;
+    }
+    parent[key] = value;
+    return true;
+  };
+
+  const remove = (tokens: string[]): boolean => {
+    const parent = tokens.length > 0 ? getParent(result, tokens) : null;
+    const key = tokens[tokens.length - 1];
+    if (!parent || !hasMember(parent, key)) {
+      return false;
+    }
+    if (Array.isArray(parent)) {
+      parent.splice(Number(key), 1);
+    } else {
+      delete parent[key];
+    }
+    return true;
+  };
+
+  for (const [index, operation] of operations.entries()) {
+    const path = parsePointer(operation.path);
+    if (!path) {
+      return { error: `Patch operation ${index}: invalid path "${operation.path}"` };
+    }
+
+    const from = operation.from !== undefined ? parsePointer(operation.from) : undefined;
+    if ((operation.op === 'move' || operation.op === 'copy') && !from) {
+      return { error: `Patch operation ${index}: ${operation.op} requires a valid "from" pointer` };
+    }
+    if (['add', 'replace', 'test'].includes(operation.op) && !('value' in operation)) {
+      return { error: `Patch operation ${index}: ${operation.op} requires a value` };
+    }
+
+    switch (operation.op) {
+      case 'add':
+        if (!add(path, structuredClone(operation.value))) {
+          return { error: `Patch operation ${index}: cannot add at ${operation.path}` };
+        }
+        break;
+
+      case 'remove':
+        if (!remove(path)) {
+          return { error: `Patch operation ${index}: nothing to remove at ${operation.path}` };
+        }
+        break;
+
+      case 'replace':
+        if (!read(path).found || (path.length > 0 && !remove(path)) || !add(path, structuredClone(operation.value))) {
+          return { error: `Patch operation ${index}: nothing to replace at ${operation.path}` };
+        }
+        break;
+
+      case 'move': {
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          return { error: `Patch operation ${index}: cannot move ${operation.from} into itself` };
+        }
+        const source = read(from!);
+        if (!source.found || !remove(from!) || !add(path, source.value)) {
+          return { error: `Patch operation ${index}: cannot move ${operation.from} to ${operation.path}` };
+        }
+        break;
+      }
+
+      case 'copy': {
+        const source = read(from!);
+        if (!source.found || !add(path, structuredClone(source.value))) {
+          return { error: `Patch operation ${index}: cannot copy ${operation.from} to ${operation.path}` };
+        }
+        break;
+      }
+
+      case 'test': {
+        const target = read(path);
+        if (!target.found || !isDeepEqual(target.value, operation.value)) {
+          return { error: `Patch operation ${index}: test failed at ${operation.path}` };
+        }
+        break;
+      }
+
+      default:
+        return { error: `Patch operation ${index}: unsupported op "${operation.op}"` };
+    }
+  }
+
+  return { result };
+}
+
+// Copy of a value without null or undefined members. Resources read back from
+// the database carry null for unset columns, which a client would omit.
+function withoutNulls(value: any): any {
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== null && item !== undefined).map(withoutNulls);
+  }
+  if (isContainer(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== null && item !== undefined)
+        .map(([key, item]) => [key, withoutNulls(item)])
+    );
+  }
+  return value;
+}
+
+// Check a patched resource before it is saved: it must still be the same
+// resource and must pass the schema used for full updates (PUT). The schema
+// runs on a copy: Fastify's validator coerces types in place (null to "" or 0)
+// and the patched resource is what gets saved.
+export function validatePatchedResource(
+  request: FastifyRequest,
+  schema: object,
+  current: FHIRResource,
+  patched: any
+): string | null {
+  if (!isContainer(patched) || Array.isArray(patched)) {
+    return 'Patched resource must be a JSON object';
+  }
+  if (patched.resourceType !== current.resourceType) {
+    return 'A patch cannot change resourceType';
+  }
+  if (patched.id !== undefined && patched.id !== current.id) {
+    return 'A patch cannot change the resource id';
+  }
+
+  const validate = request.compileValidationSchema(schema);
+  if (!validate(withoutNulls(patched))) {
+    const [error] = validate.errors || [];
+    return `Patched resource is invalid: ${error?.instancePath || 'resource'} ${error?.message || 'failed validation'}`;
+  }
+
+  return null;
+}
+
+// Prisma leaves a field unchanged when its value is undefined, so fields whose
+// element a patch removed are cleared explicitly (Json columns take DbNull)
+export function clearRemovedFields(data: Record<string, any>, jsonFields: string[] = []): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      value !== undefined ? value : jsonFields.includes(key) ? Prisma.DbNull : null
+    ])
+  );
+}
@@ -0,0 +1,276 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { DateSearchFilter, parseSortParam, parseTokenParam, SearchPaging, SearchResultParams } from './fhir.js';
+
+// FHIR string search modifiers; no modifier means case-insensitive "starts with"
+export type StringModifier = 'exact' | 'contains' | undefined;
+
+const STRING_MODIFIERS = ['exact', 'contains'] as const;
+
+// Query string schema properties for string parameters and their :exact/:contains variants
+export function stringSearchParamsSchema(names: string[]) {
+  return Object.fromEntries(names.flatMap(name => [
+    [name, { type: "string" }],
+    ...STRING_MODIFIERS.map(modifier => [`${name}:${modifier}`, { type: "string" }])
+  ]));
+}
+
+// Read a string parameter from the query, whichever modifier it was sent with
+export function getStringParam(query: Record<string, any>, name: string): { value: string; modifier: StringModifier } | null {
+  for (const modifier of STRING_MODIFIERS) {
+    if (query[`${name}:${modifier}`]) {
+      return { value: query[`${name}:${modifier}`], modifier };
+    }
+  }
+  return query[name] ? { value: query[name], modifier: undefined } : null;
+}
+
+// Escape LIKE wildcards so user input is matched literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// Comma-separated values in a FHIR search parameter are alternatives (OR)
+export function splitSearchValues(value: string): string[] {
+  return value.split(',').map(part => part.trim()).filter(Boolean);
+}
+
+// Elements of a JSONB array column, treating NULL and non-array values as empty
+function jsonArrayElements(expression: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`jsonb_array_elements(CASE WHEN jsonb_typeof(${expression}) = 'array' THEN ${expression} ELSE '[]'::jsonb END)`;
+}
+
+function jsonArrayElementsText(expression: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`jsonb_array_elements_text(CASE WHEN jsonb_typeof(${expression}) = 'array' THEN ${expression} ELSE '[]'::jsonb END)`;
+}
+
+// Match a text expression against a FHIR string parameter value
+export function stringMatch(expression: Prisma.Sql, value: string, modifier: StringModifier): Prisma.Sql {
+  switch (modifier) {
+    case 'exact':
+      return Prisma.sql`${expression} = ${value}`;
+    case 'contains':
+      return Prisma.sql`${expression} ILIKE ${`%${escapeLike(value)}%`}`;
+    default:
+      return Prisma.sql`${expression} ILIKE ${`${escapeLike(value)}%`}`;
+  }
+}
+
+// OR of conditions; no conditions (e.g. a parameter of only separators) matches nothing
+function anyOf(conditions: Prisma.Sql[]): Prisma.Sql {
+  return conditions.length > 0 ? Prisma.sql`(${Prisma.join(conditions, ' OR ')})` : Prisma.sql`FALSE`;
+}
+
+// HumanName array search. `parts` selects which name parts are compared:
+// "name" covers text, family, given, prefix and suffix; "family" and "given" only their own part.
+export function humanNameCondition(
+  column: Prisma.Sql,
+  value: string,
+  modifier: StringModifier,
+  parts: 'name' | 'family' | 'given' = 'name'
+): Prisma.Sql {
+  const conditions = splitSearchValues(value).map(term => {
+    const partMatches: Prisma.Sql[] = [];
+
+    if (parts === 'name') {
+      partMatches.push(stringMatch(Prisma.sql`n->>'text'`, term, modifier));
+    }
+    if (parts === 'name' || parts === 'family') {
+      partMatches.push(stringMatch(Prisma.sql`n->>'family'`, term, modifier));
+    }
+
+    const listParts = parts === 'name' ? ['given', 'prefix', 'suffix'] : parts === 'given' ? ['given'] : [];
+    for (const part of listParts) {
+      partMatches.push(Prisma.sql`EXISTS (SELECT 1 FROM ${jsonArrayElementsText(Prisma.raw(`n->'${part}'`))} AS np(value) WHERE ${stringMatch(Prisma.sql`np.value`, term, modifier)})`);
+    }
+
+    return Prisma.sql`EXISTS (SELECT 1 FROM ${jsonArrayElements(column)} AS n WHERE ${anyOf(partMatches)})`;
+  });
+
+  return anyOf(conditions);
+}
+
+// Token search (system|value, value or system|) against an array of
+// Identifier or ContactPoint objects stored as JSONB
+export function tokenArrayCondition(column: Prisma.Sql, value: string): Prisma.Sql {
+  const tokens = splitSearchValues(value)
+    .map(parseTokenParam)
+    // A bare "|" has neither system nor value to match on
+    .filter(({ system, code }) => system || code);
+
+  const conditions = tokens.map(({ system, code }) => {
+    const matches: Prisma.Sql[] = [];
+
+    if (system) {
+      matches.push(Prisma.sql`t->>'system' = ${system}`);
+    }
+    if (code) {
+      matches.push(Prisma.sql`t->>'value' = ${code}`);
+    }
+
+    return Prisma.sql`EXISTS (SELECT 1 FROM ${jsonArrayElements(column)} AS t WHERE ${Prisma.join(matches, ' AND ')})`;
+  });
+
+  return anyOf(conditions);
+}
+
+// address-city string search against an Address array stored as JSONB
+export function addressCityCondition(column: Prisma.Sql, value: string, modifier: StringModifier): Prisma.Sql {
+  const conditions = splitSearchValues(value).map(term =>
+    Prisma.sql`EXISTS (SELECT 1 FROM ${jsonArrayElements(column)} AS a WHERE ${stringMatch(Prisma.sql`a->>'city'`, term, modifier)})`
+  );
+
+  return anyOf(conditions);
+}
+
+// CodeableConcept array search on coding code/display (case-insensitive contains)
+export function codeableConceptArrayCondition(column: Prisma.Sql, value: string): Prisma.Sql {
+  const conditions = splitSearchValues(value).map(term =>
+    Prisma.sql`EXISTS (SELECT 1 FROM ${jsonArrayElements(column)} AS cc, ${jsonArrayElements(Prisma.sql`cc->'coding'`)} AS c WHERE ${anyOf([
+      stringMatch(Prisma.sql`c->>'code'`, term, 'contains'),
+      stringMatch(Prisma.sql`c->>'display'`, term, 'contains')
+    ])})`
+  );
+
+  return anyOf(conditions);
+}
+
+// Date range condition from parseDateSearchParams
+export function dateRangeCondition(column: Prisma.Sql, filter: DateSearchFilter): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filter.gte) {
+    conditions.push(Prisma.sql`${column} >= ${filter.gte}`);
+  }
+  if (filter.lt) {
+    conditions.push(Prisma.sql`${column} < ${filter.lt}`);
+  }
+
+  return conditions.length > 0 ? Prisma.sql`(${Prisma.join(conditions, ' AND ')})` : Prisma.sql`TRUE`;
+}
+
+// FHIR date/dateTime held as text (from year 1000 on). Values that don't match,
+// or name a day the month doesn't have, are treated as missing instead of
+// failing the timestamptz cast.
+const FHIR_DATE_SQL_PATTERN = '^[1-9][0-9]{3}(-(0[1-9]|1[0-2])(-(0[1-9]|[12][0-9]|3[01])(T([01][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9](\\.[0-9]+)?)?(Z|[+-][0-9]{2}:[0-9]{2})?)?)?)?$';
+
+// Start or (exclusive) end of the range a FHIR date/dateTime text value covers
+// at its own precision, as timestamptz: the SQL counterpart of parseFHIRDateRange
+export function fhirDateBound(expression: Prisma.Sql, bound: 'start' | 'end'): Prisma.Sql {
+  const value = Prisma.sql`(${expression})`;
+  const start = Prisma.sql`CASE WHEN length(${value}) > 10 THEN ${value}::timestamptz ELSE (${value} || substr('-01-01', length(${value}) - 3) || 'T00:00:00Z')::timestamptz END`;
+  const range = bound === 'start' ? start : Prisma.sql`(${start} + CASE
+    WHEN length(${value}) = 4 THEN interval '1 year'
+    WHEN length(${value}) = 7 THEN interval '1 month'
+    WHEN length(${value}) = 10 THEN interval '1 day'
+    WHEN ${value} ~ 'T[0-9]{2}:[0-9]{2}:' THEN interval '1 second'
+    ELSE interval '1 minute'
+  END)`;
+
+  return Prisma.sql`(CASE WHEN ${value} ~ ${FHIR_DATE_SQL_PATTERN} THEN
+    CASE WHEN length(${value}) < 10 OR extract(day FROM make_date(substr(${value}, 1, 4)::int, substr(${value}, 6, 2)::int, 1) + (substr(${value}, 9, 2)::int - 1)) = substr(${value}, 9, 2)::int
+      THEN ${range}
+    END
+  END)`;
+}
+
+// Date range condition against a FHIR Period held in a Json column: the period
+// must overlap the range, and a period without an end is still ongoing
+export function periodOverlapCondition(column: Prisma.Sql, filter: DateSearchFilter): Prisma.Sql {
+  const start = fhirDateBound(Prisma.sql`${column}->>'start'`, 'start');
+  const end = fhirDateBound(Prisma.sql`${column}->>'end'`, 'end');
+  const conditions: Prisma.Sql[] = [Prisma.sql`${start} IS NOT NULL`];
+
+  if (filter.lt) {
+    conditions.push(Prisma.sql`${start} < ${filter.lt}`);
+  }
+  if (filter.gte) {
+    conditions.push(Prisma.sql`(${end} IS NULL OR ${end} > ${filter.gte})`);
+  }
+
+  return Prisma.sql`(${Prisma.join(conditions, ' AND ')})`;
+}
+
+// ORDER BY for searchIds: _sort parameters mapped to SQL expressions (with r.id
+// as a tie-breaker so paging is stable), or the route's default order
+export function getSqlOrderBy(query: SearchResultParams, sortColumns: Record<string, Prisma.Sql>, defaultOrderBy: Prisma.Sql): Prisma.Sql | null {
+  const sorts = parseSortParam(query._sort, Object.keys(sortColumns));
+  if (!sorts) {
+    return null;
+  }
+
+  if (sorts.length === 0) {
+    return defaultOrderBy;
+  }
+
+  return Prisma.join([
+    ...sorts.map(sort => Prisma.sql`${sortColumns[sort.param]} ${Prisma.raw(sort.direction === 'desc' ? 'DESC NULLS LAST' : 'ASC NULLS LAST')}`),
+    Prisma.sql`r.id`
+  ], ', ');
+}
+
+// Sort expressions for resources with a HumanName array column; the first name is used
+export function humanNameSortColumns(column: Prisma.Sql): Record<string, Prisma.Sql> {
+  return {
+    family: Prisma.sql`lower(${column}->0->>'family')`,
+    given: Prisma.sql`lower(${column}->0->'given'->>0)`,
+    name: Prisma.sql`lower(concat_ws(' ', ${column}->0->>'family', ${column}->0->'given'->>0))`
+  };
+}
+
+// Run a search entirely in PostgreSQL and return one page of matching ids
+// (in result order) together with the full match count
+export async function searchIds(
+  prisma: PrismaClient,
+  table: string,
+  conditions: Prisma.Sql[],
+  orderBy: Prisma.Sql,
+  paging: SearchPaging
+): Promise<{ ids: string[]; total: number }> {
+  const whereClause = conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+  const tableName = Prisma.raw(`"${table}"`);
+
+  const [rows, countRows] = await Promise.all([
+    prisma.$queryRaw<{ id: string }[]>`SELECT r.id FROM ${tableName} r WHERE ${whereClause} ORDER BY ${orderBy} LIMIT ${paging.take} OFFSET ${paging.skip}`,
+    prisma.$queryRaw<{ total: number }[]>`SELECT COUNT(*)::int AS total FROM ${tableName} r WHERE ${whereClause}`
+  ]);
+
+  return {
+    ids: rows.map(row => row.id),
+    total: countRows[0]?.total ?? 0
+  };
+}
+
+// Reorder rows loaded with `id IN (...)` to match the order returned by searchIds
+export function orderByIds<T extends { id: string }>(rows: T[], ids: string[]): T[] {
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  return ids.map(id => rowsById.get(id)).filter((row): row is T => row !== undefined);
+}
+
+// Search parameters from the query string of a conditional interaction
+// (If-None-Exist, conditional update), e.g. "identifier=http://nhif|123".
+// Only the resource's search parameters are accepted; array parameters such
+// as birthdate keep every value, others their first.
+export function parseSearchCriteria(criteria: string, params: Record<string, any>): { query?: Record<string, any>; error?: string } {
+  const query: Record<string, any> = {};
+
+  for (const [name, value] of new URLSearchParams(criteria.slice(criteria.indexOf('?') + 1))) {
+    if (!params[name]) {
+      return { error: `Unsupported search parameter in conditional criteria: ${name}` };
+    }
+    if (!value) {
+      return { error: `Search parameter ${name} in conditional criteria has no value` };
+    }
+
+    if (params[name].type === 'array') {
+      query[name] = [...(query[name] || []), value];
+    } else if (!(name in query)) {
+      query[name] = value;
+    }
+  }
+
+  if (Object.keys(query).length === 0) {
+    return { error: 'Conditional criteria must include at least one search parameter' };
+  }
+
+  return { query };
+}
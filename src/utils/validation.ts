@@ -0,0 +1,293 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FHIROperationOutcome, FHIROperationOutcomeIssue } from '../types/fhir.js';
+
+// Resource types with structural validation on write and a $validate operation
+export const VALIDATED_RESOURCE_TYPES = ['Patient', 'Practitioner', 'Organization', 'Appointment'];
+
+// FHIR R4 required value sets
+const ADMINISTRATIVE_GENDERS = ['male', 'female', 'other', 'unknown'];
+const NAME_USES = ['usual', 'official', 'temp', 'nickname', 'anonymous', 'old', 'maiden'];
+const CONTACT_POINT_SYSTEMS = ['phone', 'fax', 'email', 'pager', 'url', 'sms', 'other'];
+const CONTACT_POINT_USES = ['home', 'work', 'temp', 'old', 'mobile'];
+const ADDRESS_USES = ['home', 'work', 'temp', 'old', 'billing'];
+const ADDRESS_TYPES = ['postal', 'physical', 'both'];
+const IDENTIFIER_USES = ['usual', 'official', 'temp', 'secondary', 'old'];
+const APPOINTMENT_STATUSES = [
+  'proposed', 'pending', 'booked', 'arrived', 'fulfilled', 'cancelled', 'noshow', 'entered-in-error', 'checked-in', 'waitlist'
+];
+
+const FHIR_DATE = /^[0-9]{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12][0-9]|3[01]))?)?$/;
+const FHIR_INSTANT = /^[0-9]{4}-(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]+)?(Z|[+-]((0[0-9]|1[0-3]):[0-5][0-9]|14:00))$/;
+
+type Issues = FHIROperationOutcomeIssue[];
+
+function addIssue(issues: Issues, code: string, expression: string, diagnostics: string) {
+  issues.push({ severity: 'error', code, diagnostics, expression: [expression] });
+}
+
+// FHIR JSON omits empty elements, but resources read back from the database
+// carry null for unset columns, so null counts as absent
+function isAbsent(value: any): boolean {
+  return value === undefined || value === null;
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Primitive checks; absent elements are always allowed here
+
+function checkString(issues: Issues, value: any, path: string) {
+  if (!isAbsent(value) && (typeof value !== 'string' || value.trim() === '')) {
+    addIssue(issues, 'value', path, `${path} must be a non-empty string`);
+  }
+}
+
+function checkBoolean(issues: Issues, value: any, path: string) {
+  if (!isAbsent(value) && typeof value !== 'boolean') {
+    addIssue(issues, 'value', path, `${path} must be a boolean`);
+  }
+}
+
+function checkCode(issues: Issues, value: any, allowed: string[], path: string) {
+  if (!isAbsent(value) && !allowed.includes(value)) {
+    addIssue(issues, 'code-invalid', path, `${path} must be one of: ${allowed.join(', ')}`);
+  }
+}
+
+function checkDate(issues: Issues, value: any, path: string) {
+  if (!isAbsent(value) && (typeof value !== 'string' || !FHIR_DATE.test(value))) {
+    addIssue(issues, 'value', path, `${path} must be a date (YYYY, YYYY-MM or YYYY-MM-DD)`);
+  }
+}
+
+function checkInstant(issues: Issues, value: any, path: string) {
+  if (!isAbsent(value) && (typeof value !== 'string' || !FHIR_INSTANT.test(value) || isNaN(Date.parse(value)))) {
+    addIssue(issues, 'value', path, `${path} must be an instant with seconds and a time zone, e.g. 2024-01-15T09:00:00Z`);
+  }
+}
+
+function checkStringArray(issues: Issues, value: any, path: string) {
+  checkArray(issues, value, path, (item, itemPath) => checkString(issues, item, itemPath));
+}
+
+// Run check on each element of a repeating element
+function checkArray(issues: Issues, value: any, path: string, check: (item: any, path: string) => void) {
+  if (isAbsent(value)) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    addIssue(issues, 'structure', path, `${path} must be an array`);
+    return;
+  }
+  value.forEach((item, index) => check(item, `${path}[${index}]`));
+}
+
+// Datatypes in types/fhir.ts
+
+function checkCoding(issues: Issues, value: any, path: string) {
+  if (!isObject(value)) {
+    addIssue(issues, 'structure', path, `${path} must be a Coding object`);
+    return;
+  }
+  checkString(issues, value.system, `${path}.system`);
+  checkString(issues, value.version, `${path}.version`);
+  checkString(issues, value.code, `${path}.code`);
+  checkString(issues, value.display, `${path}.display`);
+}
+
+export function checkCodeableConcept(issues: Issues, value: any, path: string) {
+  if (isAbsent(value)) {
+    return;
+  }
+  if (!isObject(value)) {
+    addIssue(issues, 'structure', path, `${path} must be a CodeableConcept object`);
+    return;
+  }
+  checkArray(issues, value.coding, `${path}.coding`, (coding, codingPath) => checkCoding(issues, coding, codingPath));
+  checkString(issues, value.text, `${path}.text`);
+  if (!value.coding?.length && isAbsent(value.text)) {
+    addIssue(issues, 'required', path, `${path} must have a coding or text`);
+  }
+}
+
+export function checkIdentifier(issues: Issues, value: any, path: string) {
+  if (!isObject(value)) {
+    addIssue(issues, 'structure', path, `${path} must be an Identifier object`);
+    return;
+  }
+  checkCode(issues, value.use, IDENTIFIER_USES, `${path}.use`);
+  checkCodeableConcept(issues, value.type, `${path}.type`);
+  checkString(issues, value.system, `${path}.system`);
+  checkString(issues, value.value, `${path}.value`);
+  if (isAbsent(value.value)) {
+    addIssue(issues, 'required', `${path}.value`, `${path}.value is required`);
+  }
+}
+
+export function checkHumanName(issues: Issues, value: any, path: string) {
+  if (!isObject(value)) {
+    addIssue(issues, 'structure', path, `${path} must be a HumanName object`);
+    return;
+  }
+  checkCode(issues, value.use, NAME_USES, `${path}.use`);
+  checkString(issues, value.text, `${path}.text`);
+  checkString(issues, value.family, `${path}.family`);
+  checkStringArray(issues, value.given, `${path}.given`);
+  checkStringArray(issues, value.prefix, `${path}.prefix`);
+  checkStringArray(issues, value.suffix, `${path}.suffix`);
+  if (isAbsent(value.family) && !value.given?.length && isAbsent(value.text)) {
+    addIssue(issues, 'required', path, `${path} must have a family name, a given name or text`);
+  }
+}
+
+export function checkContactPoint(issues: Issues, value: any, path: string) {
+  if (!isObject(value)) {
+    addIssue(issues, 'structure', path, `${path} must be a ContactPoint object`);
+    return;
+  }
+  checkCode(issues, value.system, CONTACT_POINT_SYSTEMS, `${path}.system`);
+  checkString(issues, value.value, `${path}.value`);
+  checkCode(issues, value.use, CONTACT_POINT_USES, `${path}.use`);
+  if (!isAbsent(value.rank) && (!Number.isInteger(value.rank) || value.rank < 1)) {
+    addIssue(issues, 'value', `${path}.rank`, `${path}.rank must be a positive integer`);
+  }
+  // cpt-2: a system is required if a value is provided
+  if (!isAbsent(value.value) && isAbsent(value.system)) {
+    addIssue(issues, 'required', `${path}.system`, `${path}.system is required when a value is given`);
+  }
+}
+
+export function checkAddress(issues: Issues, value: any, path: string) {
+  if (!isObject(value)) {
+    addIssue(issues, 'structure', path, `${path} must be an Address object`);
+    return;
+  }
+  checkCode(issues, value.use, ADDRESS_USES, `${path}.use`);
+  checkCode(issues, value.type, ADDRESS_TYPES, `${path}.type`);
+  checkString(issues, value.text, `${path}.text`);
+  checkStringArray(issues, value.line, `${path}.line`);
+  for (const part of ['city', 'district', 'state', 'postalCode', 'country']) {
+    checkString(issues, value[part], `${path}.${part}`);
+  }
+}
+
+// Resource rules
+
+function checkRequired(issues: Issues, resource: any, element: string) {
+  const value = resource[element];
+  if (isAbsent(value) || value === '' || (Array.isArray(value) && value.length === 0)) {
+    addIssue(issues, 'required', `${resource.resourceType}.${element}`, `${resource.resourceType}.${element} is required`);
+  }
+}
+
+// Elements shared by Patient and Practitioner
+function checkPerson(issues: Issues, resource: any) {
+  const type = resource.resourceType;
+  checkRequired(issues, resource, 'name');
+  checkBoolean(issues, resource.active, `${type}.active`);
+  checkArray(issues, resource.identifier, `${type}.identifier`, (item, path) => checkIdentifier(issues, item, path));
+  checkArray(issues, resource.name, `${type}.name`, (item, path) => checkHumanName(issues, item, path));
+  checkArray(issues, resource.telecom, `${type}.telecom`, (item, path) => checkContactPoint(issues, item, path));
+  checkArray(issues, resource.address, `${type}.address`, (item, path) => checkAddress(issues, item, path));
+  checkCode(issues, resource.gender, ADMINISTRATIVE_GENDERS, `${type}.gender`);
+  checkDate(issues, resource.birthDate, `${type}.birthDate`);
+}
+
+const RESOURCE_RULES: Record<string, (issues: Issues, resource: any) => void> = {
+  Patient: (issues, patient) => {
+    checkPerson(issues, patient);
+    checkCodeableConcept(issues, patient.maritalStatus, 'Patient.maritalStatus');
+  },
+
+  Practitioner: (issues, practitioner) => {
+    checkPerson(issues, practitioner);
+    checkArray(issues, practitioner.qualification, 'Practitioner.qualification', (qualification, path) => {
+      if (!isObject(qualification) || isAbsent(qualification.code)) {
+        addIssue(issues, 'required', `${path}.code`, `${path}.code is required`);
+        return;
+      }
+      checkCodeableConcept(issues, qualification.code, `${path}.code`);
+      checkArray(issues, qualification.identifier, `${path}.identifier`, (item, itemPath) => checkIdentifier(issues, item, itemPath));
+    });
+  },
+
+  Organization: (issues, organization) => {
+    checkRequired(issues, organization, 'name');
+    checkString(issues, organization.name, 'Organization.name');
+    checkBoolean(issues, organization.active, 'Organization.active');
+    checkArray(issues, organization.identifier, 'Organization.identifier', (item, path) => checkIdentifier(issues, item, path));
+    checkArray(issues, organization.type, 'Organization.type', (item, path) => checkCodeableConcept(issues, item, path));
+    checkArray(issues, organization.telecom, 'Organization.telecom', (item, path) => {
+      checkContactPoint(issues, item, path);
+      // org-3: an organization's telecom can never be of use 'home'
+      if (item?.use === 'home') {
+        addIssue(issues, 'business-rule', `${path}.use`, `${path}.use cannot be 'home' for an organization`);
+      }
+    });
+    checkArray(issues, organization.address, 'Organization.address', (item, path) => {
+      checkAddress(issues, item, path);
+      // org-2: an organization's address can never be of use 'home'
+      if (item?.use === 'home') {
+        addIssue(issues, 'business-rule', `${path}.use`, `${path}.use cannot be 'home' for an organization`);
+      }
+    });
+  },
+
+  Appointment: (issues, appointment) => {
+    checkRequired(issues, appointment, 'status');
+    checkCode(issues, appointment.status, APPOINTMENT_STATUSES, 'Appointment.status');
+    checkArray(issues, appointment.identifier, 'Appointment.identifier', (item, path) => checkIdentifier(issues, item, path));
+    for (const element of ['serviceType', 'specialty', 'reasonCode']) {
+      checkArray(issues, appointment[element], `Appointment.${element}`, (item, path) => checkCodeableConcept(issues, item, path));
+    }
+    checkCodeableConcept(issues, appointment.appointmentType, 'Appointment.appointmentType');
+    checkString(issues, appointment.description, 'Appointment.description');
+    checkString(issues, appointment.comment, 'Appointment.comment');
+    checkInstant(issues, appointment.start, 'Appointment.start');
+    checkInstant(issues, appointment.end, 'Appointment.end');
+    if (!isAbsent(appointment.minutesDuration) && (!Number.isInteger(appointment.minutesDuration) || appointment.minutesDuration < 1)) {
+      addIssue(issues, 'value', 'Appointment.minutesDuration', 'Appointment.minutesDuration must be a positive integer');
+    }
+    // app-2: either start and end are specified, or neither
+    if (isAbsent(appointment.start) !== isAbsent(appointment.end)) {
+      addIssue(issues, 'invariant', 'Appointment', 'Appointment.start and Appointment.end must both be given, or neither');
+    } else if (Date.parse(appointment.end) < Date.parse(appointment.start)) {
+      addIssue(issues, 'invariant', 'Appointment.end', 'Appointment.end must not be before Appointment.start');
+    }
+  }
+};
+
+// Structural problems in a resource, each with the FHIRPath expression of the element at fault
+export function validateResource(resource: any): FHIROperationOutcomeIssue[] {
+  const issues: Issues = [];
+
+  if (!isObject(resource)) {
+    addIssue(issues, 'structure', 'Resource', 'Resource must be a JSON object');
+    return issues;
+  }
+
+  const rules = RESOURCE_RULES[resource.resourceType];
+  if (!rules) {
+    addIssue(issues, 'not-supported', 'Resource.resourceType', `Validation of resourceType ${resource.resourceType} is not supported`);
+    return issues;
+  }
+
+  rules(issues, resource);
+  return issues;
+}
+
+// OperationOutcome listing validation issues; with no issues (a passing $validate),
+// a single informational issue says so
+export function createValidationOutcome(issues: FHIROperationOutcomeIssue[]): FHIROperationOutcome {
+  return {
+    resourceType: "OperationOutcome",
+    id: uuidv4(),
+    meta: {
+      lastUpdated: new Date().toISOString()
+    },
+    issue: issues.length > 0
+      ? issues
+      : [{ severity: 'information', code: 'informational', diagnostics: 'Validation successful, no issues found' }]
+  };
+}
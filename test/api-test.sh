@@ -24,6 +24,21 @@ ORGANIZATION_ID=""
 PATIENT_ID=""
 PRACTITIONER_ID=""
 APPOINTMENT_ID=""
+ENCOUNTER_ID=""
+OBSERVATION_ID=""
+MEDICATION_ID=""
+MEDICATION_REQUEST_ID=""
+SERVICE_REQUEST_ID=""
+DIAGNOSTIC_REPORT_ID=""
+RECEIVING_ORGANIZATION_ID=""
+REFERRAL_ID=""
+INVOICE_ID=""
+INVENTORY_ITEM_ID=""
+EQUIPMENT_ID=""
+STAFF_ID=""
+SPARSE_APPOINTMENT_ID=""
+OFFSET_ENCOUNTER_ID=""
+DATE_ONLY_ENCOUNTER_ID=""
 
 # Function to print colored output
 print_status() {
@@ -49,19 +64,20 @@ make_request() {
     local data=$3
     local expected_status=$4
     local headers=$5
+    local content_type=${6:-application/json}
 
     print_status "Making $method request to $url"
 
     if [ -n "$data" ]; then
         if [ -n "$headers" ]; then
             response=$(curl -s -w "HTTPSTATUS:%{http_code}" -X "$method" "$url" \
-                -H "Content-Type: application/json" \
+                -H "Content-Type: $content_type" \
                 -H "Authorization: Bearer $AUTH_TOKEN" \
                 $headers \
                 -d "$data")
         else
             response=$(curl -s -w "HTTPSTATUS:%{http_code}" -X "$method" "$url" \
-                -H "Content-Type: application/json" \
+                -H "Content-Type: $content_type" \
                 -H "Authorization: Bearer $AUTH_TOKEN" \
                 -d "$data")
         fi
@@ -436,6 +452,775 @@ cancel_response=$(make_request "DELETE" "$BASE_URL/fhir/Appointment/$APPOINTMENT
 print_status "Appointment cancellation passed ✓"
 echo
 
+# Test 24: Create Encounter
+print_header "Testing encounter creation..."
+encounter_data='{
+    "resourceType": "Encounter",
+    "status": "in-progress",
+    "class": {
+        "system": "http://terminology.hl7.org/CodeSystem/v3-ActCode",
+        "code": "AMB",
+        "display": "ambulatory"
+    },
+    "period": {
+        "start": "2024-01-15T09:05:00Z"
+    },
+    "patientId": "'$PATIENT_ID'",
+    "practitionerId": "'$PRACTITIONER_ID'",
+    "appointmentId": "'$APPOINTMENT_ID'"
+}'
+encounter_response=$(make_request "POST" "$BASE_URL/fhir/Encounter" "$encounter_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+ENCOUNTER_ID=$(extract_id "$encounter_response")
+print_status "Encounter creation passed ✓ (ID: $ENCOUNTER_ID)"
+echo
+
+# Test 25: Search Encounters by Patient
+print_header "Testing encounter search by patient..."
+encounter_search_response=$(make_request "GET" "$BASE_URL/fhir/Encounter?patient=$PATIENT_ID" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Encounter search by patient passed ✓"
+echo
+
+# Test 26: Create Observation
+print_header "Testing observation creation..."
+observation_data='{
+    "resourceType": "Observation",
+    "status": "final",
+    "category": [
+        {
+            "coding": [
+                {
+                    "system": "http://terminology.hl7.org/CodeSystem/observation-category",
+                    "code": "vital-signs"
+                }
+            ]
+        }
+    ],
+    "code": {
+        "coding": [
+            {
+                "system": "http://loinc.org",
+                "code": "8867-4",
+                "display": "Heart rate"
+            }
+        ]
+    },
+    "effectiveDateTime": "2024-01-15T09:10:00Z",
+    "valueQuantity": {
+        "value": 72,
+        "unit": "beats/minute",
+        "system": "http://unitsofmeasure.org",
+        "code": "/min"
+    },
+    "patientId": "'$PATIENT_ID'",
+    "encounterId": "'$ENCOUNTER_ID'"
+}'
+observation_response=$(make_request "POST" "$BASE_URL/fhir/Observation" "$observation_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+OBSERVATION_ID=$(extract_id "$observation_response")
+print_status "Observation creation passed ✓ (ID: $OBSERVATION_ID)"
+echo
+
+# Test 27: Search Observations by Code and Date Range
+print_header "Testing observation search by code and date range..."
+observation_search_response=$(make_request "GET" "$BASE_URL/fhir/Observation?patient=$PATIENT_ID&code=http://loinc.org|8867-4&date=ge2024-01-01&date=le2024-01-31" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Observation search by code and date range passed ✓"
+echo
+
+# Test 28: Create Medication
+print_header "Testing medication creation..."
+medication_data='{
+    "resourceType": "Medication",
+    "code": {
+        "coding": [
+            {
+                "system": "http://www.nlm.nih.gov/research/umls/rxnorm",
+                "code": "197361",
+                "display": "Amoxicillin 500 MG Oral Capsule"
+            }
+        ],
+        "text": "Amoxicillin 500 MG Oral Capsule"
+    },
+    "status": "active"
+}'
+medication_response=$(make_request "POST" "$BASE_URL/fhir/Medication" "$medication_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+MEDICATION_ID=$(extract_id "$medication_response")
+print_status "Medication creation passed ✓ (ID: $MEDICATION_ID)"
+echo
+
+# Test 29: Create Medication Request
+print_header "Testing medication request creation..."
+medication_request_data='{
+    "resourceType": "MedicationRequest",
+    "status": "draft",
+    "intent": "order",
+    "medicationReference": {
+        "reference": "Medication/'$MEDICATION_ID'"
+    },
+    "dosageInstruction": [
+        {
+            "text": "500 mg by mouth three times daily for 7 days"
+        }
+    ],
+    "dispenseRequest": {
+        "quantity": {
+            "value": 21,
+            "unit": "capsule"
+        }
+    },
+    "patientId": "'$PATIENT_ID'",
+    "practitionerId": "'$PRACTITIONER_ID'"
+}'
+medication_request_response=$(make_request "POST" "$BASE_URL/fhir/MedicationRequest" "$medication_request_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+MEDICATION_REQUEST_ID=$(extract_id "$medication_request_response")
+print_status "Medication request creation passed ✓ (ID: $MEDICATION_REQUEST_ID)"
+echo
+
+# Test 30: Activate Medication Request
+print_header "Testing medication request activation..."
+medication_request_update_data='{
+    "resourceType": "MedicationRequest",
+    "status": "active",
+    "intent": "order"
+}'
+medication_request_update_response=$(make_request "PUT" "$BASE_URL/fhir/MedicationRequest/$MEDICATION_REQUEST_ID" "$medication_request_update_data" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Medication request activation passed ✓"
+echo
+
+# Test 31: Create Service Request
+print_header "Testing service request creation..."
+service_request_data='{
+    "resourceType": "ServiceRequest",
+    "status": "active",
+    "intent": "order",
+    "priority": "routine",
+    "category": [
+        {
+            "coding": [
+                {
+                    "system": "http://snomed.info/sct",
+                    "code": "108252007",
+                    "display": "Laboratory procedure"
+                }
+            ]
+        }
+    ],
+    "code": {
+        "coding": [
+            {
+                "system": "http://loinc.org",
+                "code": "58410-2",
+                "display": "Complete blood count (hemogram) panel"
+            }
+        ]
+    },
+    "patientId": "'$PATIENT_ID'",
+    "practitionerId": "'$PRACTITIONER_ID'",
+    "encounterId": "'$ENCOUNTER_ID'"
+}'
+service_request_response=$(make_request "POST" "$BASE_URL/fhir/ServiceRequest" "$service_request_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+SERVICE_REQUEST_ID=$(extract_id "$service_request_response")
+print_status "Service request creation passed ✓ (ID: $SERVICE_REQUEST_ID)"
+echo
+
+# Test 32: Search Service Requests by Encounter
+print_header "Testing service request search by encounter..."
+service_request_search_response=$(make_request "GET" "$BASE_URL/fhir/ServiceRequest?encounter=$ENCOUNTER_ID&status=active" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Service request search by encounter passed ✓"
+echo
+
+# Test 33: Create Diagnostic Report
+print_header "Testing diagnostic report creation..."
+diagnostic_report_data='{
+    "resourceType": "DiagnosticReport",
+    "status": "preliminary",
+    "code": {
+        "coding": [
+            {
+                "system": "http://loinc.org",
+                "code": "85353-1",
+                "display": "Vital signs panel"
+            }
+        ]
+    },
+    "effectiveDateTime": "2024-01-15T09:10:00Z",
+    "result": [
+        {
+            "reference": "Observation/'$OBSERVATION_ID'"
+        }
+    ],
+    "patientId": "'$PATIENT_ID'"
+}'
+diagnostic_report_response=$(make_request "POST" "$BASE_URL/fhir/DiagnosticReport" "$diagnostic_report_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+DIAGNOSTIC_REPORT_ID=$(extract_id "$diagnostic_report_response")
+print_status "Diagnostic report creation passed ✓ (ID: $DIAGNOSTIC_REPORT_ID)"
+echo
+
+# Test 34: Finalize Diagnostic Report
+print_header "Testing diagnostic report finalization..."
+diagnostic_report_update_data='{
+    "resourceType": "DiagnosticReport",
+    "status": "final",
+    "conclusion": "Vital signs within normal limits"
+}'
+diagnostic_report_update_response=$(make_request "PUT" "$BASE_URL/fhir/DiagnosticReport/$DIAGNOSTIC_REPORT_ID" "$diagnostic_report_update_data" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Diagnostic report finalization passed ✓"
+echo
+
+# Test 35: Search Diagnostic Reports with Included Results
+print_header "Testing diagnostic report search with _include..."
+diagnostic_report_search_response=$(make_request "GET" "$BASE_URL/fhir/DiagnosticReport?patient=$PATIENT_ID&_include=DiagnosticReport:result" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Diagnostic report search with _include passed ✓"
+echo
+
+# Test 36: Create Receiving Organization for Referral
+print_header "Testing receiving organization creation..."
+receiving_org_data='{
+    "resourceType": "Organization",
+    "name": "Specialty Cardiology Clinic",
+    "type": [{"text": "clinic"}],
+    "active": true
+}'
+receiving_org_response=$(make_request "POST" "$BASE_URL/fhir/Organization" "$receiving_org_data" 201)
+RECEIVING_ORGANIZATION_ID=$(extract_id "$receiving_org_response")
+print_status "Receiving organization creation passed ✓ (ID: $RECEIVING_ORGANIZATION_ID)"
+echo
+
+# Test 37: Create Referral
+print_header "Testing referral creation..."
+referral_data='{
+    "patientId": "'$PATIENT_ID'",
+    "referringPractitionerId": "'$PRACTITIONER_ID'",
+    "receivingOrganizationId": "'$RECEIVING_ORGANIZATION_ID'",
+    "type": "consultation",
+    "priority": "routine",
+    "description": "Cardiology consultation for irregular heart rhythm"
+}'
+referral_response=$(make_request "POST" "$BASE_URL/api/referrals" "$referral_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+REFERRAL_ID=$(extract_id "$referral_response")
+print_status "Referral creation passed ✓ (ID: $REFERRAL_ID)"
+echo
+
+# Test 38: List Sent Referrals
+print_header "Testing sent referrals listing..."
+referrals_response=$(make_request "GET" "$BASE_URL/api/referrals?patient=$PATIENT_ID" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Sent referrals listing passed ✓"
+echo
+
+# Test 39: Create Invoice
+print_header "Testing invoice creation..."
+invoice_data='{
+    "patientId": "'$PATIENT_ID'",
+    "status": "issued",
+    "dueDate": "2026-12-31",
+    "lineItems": [
+        {"description": "General consultation", "code": "99213", "quantity": 1, "unitPrice": 75},
+        {"description": "Complete blood count", "code": "85025", "quantity": 1, "unitPrice": 25.5}
+    ]
+}'
+invoice_response=$(make_request "POST" "$BASE_URL/api/invoices" "$invoice_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+INVOICE_ID=$(extract_id "$invoice_response")
+print_status "Invoice creation passed ✓ (ID: $INVOICE_ID)"
+echo
+
+# Test 40: Record Partial Payment
+print_header "Testing invoice payment recording..."
+payment_data='{
+    "amount": 50,
+    "method": "cash"
+}'
+payment_response=$(make_request "POST" "$BASE_URL/api/invoices/$INVOICE_ID/payments" "$payment_data" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Invoice payment recording passed ✓"
+echo
+
+# Test 41: Get FHIR Invoice
+print_header "Testing FHIR invoice export..."
+fhir_invoice_response=$(make_request "GET" "$BASE_URL/fhir/Invoice/$INVOICE_ID" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "FHIR invoice export passed ✓"
+echo
+
+# Test 42: Invoice Aging Report
+print_header "Testing invoice aging report..."
+aging_response=$(make_request "GET" "$BASE_URL/api/invoices/aging" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Invoice aging report passed ✓"
+echo
+
+# Test 43: Create Inventory Item
+print_header "Testing inventory item creation..."
+inventory_item_data='{
+    "name": "Amoxicillin 500 MG Oral Capsule",
+    "category": "medication",
+    "unitOfMeasure": "box",
+    "currentStock": 40,
+    "minimumStock": 10,
+    "maximumStock": 100,
+    "unitCost": 4.5,
+    "expirationDate": "2027-06-30"
+}'
+inventory_item_response=$(make_request "POST" "$BASE_URL/api/inventory" "$inventory_item_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+INVENTORY_ITEM_ID=$(extract_id "$inventory_item_response")
+print_status "Inventory item creation passed ✓ (ID: $INVENTORY_ITEM_ID)"
+echo
+
+# Test 44: Record Inventory Transaction
+print_header "Testing inventory stock issue..."
+inventory_transaction_data='{
+    "type": "out",
+    "quantity": 5,
+    "reason": "usage"
+}'
+inventory_transaction_response=$(make_request "POST" "$BASE_URL/api/inventory/$INVENTORY_ITEM_ID/transactions" "$inventory_transaction_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Inventory stock issue passed ✓"
+echo
+
+# Test 45: Reject Negative Stock
+print_header "Testing negative stock rejection..."
+overdraw_data='{
+    "type": "out",
+    "quantity": 1000,
+    "reason": "usage"
+}'
+overdraw_response=$(make_request "POST" "$BASE_URL/api/inventory/$INVENTORY_ITEM_ID/transactions" "$overdraw_data" 409 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Negative stock rejection passed ✓"
+echo
+
+# Test 46: Inventory Alerts
+print_header "Testing inventory alerts..."
+inventory_alerts_response=$(make_request "GET" "$BASE_URL/api/inventory/alerts?expiryWindowDays=365" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Inventory alerts passed ✓"
+echo
+
+# Test 47: Register Equipment
+print_header "Testing equipment registration..."
+equipment_data='{
+    "name": "Patient Monitor",
+    "type": "monitoring",
+    "manufacturer": "Philips",
+    "model": "IntelliVue MX450",
+    "location": "Ward 3",
+    "purchaseDate": "2024-01-15",
+    "warrantyExpiry": "2027-01-15",
+    "nextMaintenance": "2026-01-15"
+}'
+equipment_response=$(make_request "POST" "$BASE_URL/api/equipment" "$equipment_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+EQUIPMENT_ID=$(extract_id "$equipment_response")
+print_status "Equipment registration passed ✓ (ID: $EQUIPMENT_ID)"
+echo
+
+# Test 48: Log Equipment Maintenance
+print_header "Testing equipment maintenance logging..."
+maintenance_data='{
+    "type": "calibration",
+    "description": "Annual calibration and safety check",
+    "cost": 120,
+    "performedBy": "Biomedical Engineering",
+    "nextDue": "2027-06-01"
+}'
+maintenance_response=$(make_request "POST" "$BASE_URL/api/equipment/$EQUIPMENT_ID/maintenance" "$maintenance_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Equipment maintenance logging passed ✓"
+echo
+
+# Test 49: List Maintenance Due
+print_header "Testing maintenance due listing..."
+maintenance_due_response=$(make_request "GET" "$BASE_URL/api/equipment/maintenance-due?withinDays=365" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Maintenance due listing passed ✓"
+echo
+
+# Test 50: Create Staff Member
+print_header "Testing staff member creation..."
+staff_data='{
+    "employeeId": "EMP-'$ORGANIZATION_ID'",
+    "name": {"family": "Otieno", "given": ["Grace"]},
+    "position": "receptionist",
+    "department": "Front Office",
+    "email": "grace.otieno@example.com",
+    "phone": "+254700000001",
+    "hireDate": "2024-03-01"
+}'
+staff_response=$(make_request "POST" "$BASE_URL/api/staff" "$staff_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+STAFF_ID=$(extract_id "$staff_response")
+print_status "Staff member creation passed ✓ (ID: $STAFF_ID)"
+echo
+
+# Test 51: Search Staff by Department
+print_header "Testing staff search by department..."
+staff_search_response=$(make_request "GET" "$BASE_URL/api/staff?department=Front%20Office&status=active" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Staff search by department passed ✓"
+echo
+
+# Test 52: Export Staff as PractitionerRole
+print_header "Testing PractitionerRole export..."
+practitioner_role_response=$(make_request "GET" "$BASE_URL/fhir/PractitionerRole/$STAFF_ID" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "PractitionerRole export passed ✓"
+echo
+
+# Test 53: Dispense Medication Request from Inventory
+print_header "Testing medication request dispensing..."
+manual_stock_out_data='{
+    "type": "out",
+    "quantity": 1,
+    "reason": "usage",
+    "reference": "MedicationRequest/'$MEDICATION_REQUEST_ID'"
+}'
+make_request "POST" "$BASE_URL/api/inventory/$INVENTORY_ITEM_ID/transactions" "$manual_stock_out_data" 201 "-H \"x-organization-id: $ORGANIZATION_ID\"" > /dev/null
+dispense_data='{
+    "inventoryItemId": "'$INVENTORY_ITEM_ID'"
+}'
+dispense_response=$(make_request "POST" "$BASE_URL/fhir/MedicationRequest/$MEDICATION_REQUEST_ID/\$dispense" "$dispense_data" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Medication request dispensing passed ✓"
+echo
+
+# Test 54: Page Through Patient Search Results
+print_header "Testing patient search paging..."
+patient_page_response=$(make_request "GET" "$BASE_URL/fhir/Patient?_count=1&_offset=0" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if ! echo "$patient_page_response" | grep -q '"relation":"self"'; then
+    print_error "Patient search Bundle is missing paging links"
+    exit 1
+fi
+print_status "Patient search paging passed ✓"
+echo
+
+# Test 55: Search Patients and Practitioners by Name and Identifier
+print_header "Testing patient and practitioner name and identifier search..."
+patient_name_response=$(make_request "GET" "$BASE_URL/fhir/Patient?family=smi&name:contains=illia" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if ! echo "$patient_name_response" | grep -q "$PATIENT_ID"; then
+    print_error "Patient name search did not return the created patient"
+    exit 1
+fi
+patient_exact_response=$(make_request "GET" "$BASE_URL/fhir/Patient?family:exact=smi" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if ! echo "$patient_exact_response" | grep -q '"total":0'; then
+    print_error "Exact family search should not match a name prefix"
+    exit 1
+fi
+practitioner_identifier_response=$(make_request "GET" "$BASE_URL/fhir/Practitioner?identifier=http://hl7.org/fhir/sid/us-npi%7C1234567890&family=john" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if ! echo "$practitioner_identifier_response" | grep -q "$PRACTITIONER_ID"; then
+    print_error "Practitioner identifier search did not return the created practitioner"
+    exit 1
+fi
+print_status "Patient and practitioner search passed ✓"
+echo
+
+# Test 56: Search by Date Prefixes and Partial Dates
+print_header "Testing date prefix search..."
+birthdate_response=$(make_request "GET" "$BASE_URL/fhir/Patient?birthdate=ge1985-03&birthdate=lt1986" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if ! echo "$birthdate_response" | grep -q "$PATIENT_ID"; then
+    print_error "Birthdate range search did not return the created patient"
+    exit 1
+fi
+appointment_date_response=$(make_request "GET" "$BASE_URL/fhir/Appointment?date=2024-01&patient=$PATIENT_ID" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if ! echo "$appointment_date_response" | grep -q "$APPOINTMENT_ID"; then
+    print_error "Appointment month search did not return the created appointment"
+    exit 1
+fi
+appointment_after_response=$(make_request "GET" "$BASE_URL/fhir/Appointment?date=gt2024-01&patient=$PATIENT_ID" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if echo "$appointment_after_response" | grep -q "$APPOINTMENT_ID"; then
+    print_error "Appointment gt search returned an appointment from the excluded month"
+    exit 1
+fi
+invalid_date_response=$(make_request "GET" "$BASE_URL/fhir/Observation?date=2024-13" "" 400 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Date prefix search passed ✓"
+echo
+
+# Test 57: Sort and Subset Search Results
+print_header "Testing _sort, _elements and _summary..."
+patient_elements_response=$(make_request "GET" "$BASE_URL/fhir/Patient?_sort=family,-birthdate&_elements=name" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if ! echo "$patient_elements_response" | grep -q '"SUBSETTED"' || echo "$patient_elements_response" | grep -q '"telecom"'; then
+    print_error "Patient _elements search did not return subsetted resources"
+    exit 1
+fi
+observation_count_response=$(make_request "GET" "$BASE_URL/fhir/Observation?_summary=count" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if echo "$observation_count_response" | grep -q '"entry"'; then
+    print_error "_summary=count should return only the total"
+    exit 1
+fi
+invalid_sort_response=$(make_request "GET" "$BASE_URL/fhir/Appointment?_sort=unknown" "" 400 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Search sorting and subsetting passed ✓"
+echo
+
+# Test 58: Include Referenced Resources in Appointment Search
+print_header "Testing appointment _include and _revinclude..."
+appointment_include_response=$(make_request "GET" "$BASE_URL/fhir/Appointment?patient=$PATIENT_ID&_include=Appointment:patient&_include=Appointment:practitioner&_revinclude=Encounter:appointment" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if ! echo "$appointment_include_response" | grep -q "/fhir/Practitioner/$PRACTITIONER_ID" || ! echo "$appointment_include_response" | grep -q "/fhir/Encounter/$ENCOUNTER_ID"; then
+    print_error "Appointment search did not include the referenced practitioner and encounter"
+    exit 1
+fi
+if ! echo "$appointment_include_response" | grep -q '"mode":"include"'; then
+    print_error "Included resources are missing search.mode = include"
+    exit 1
+fi
+print_status "Appointment include passed ✓"
+echo
+
+# Test 59: Read Patient Version History
+print_header "Testing resource history and vread..."
+patient_history_response=$(make_request "GET" "$BASE_URL/fhir/Patient/$PATIENT_ID/_history" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if ! echo "$patient_history_response" | grep -q '"type":"history"' || ! echo "$patient_history_response" | grep -q '"versionId":"2"'; then
+    print_error "Patient history should contain the updated version"
+    exit 1
+fi
+patient_vread_response=$(make_request "GET" "$BASE_URL/fhir/Patient/$PATIENT_ID/_history/1" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+if echo "$patient_vread_response" | grep -q '"Updated"'; then
+    print_error "Version 1 of the patient should not contain the later update"
+    exit 1
+fi
+missing_version_response=$(make_request "GET" "$BASE_URL/fhir/Patient/$PATIENT_ID/_history/99" "" 404 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+appointment_history_response=$(make_request "GET" "$BASE_URL/fhir/Appointment/_history?_count=5" "" 200 "-H \"x-organization-id: $ORGANIZATION_ID\"")
+print_status "Resource history passed ✓"
+echo
+
+# Test 60: Reject Stale Updates with If-Match
+print_header "Testing optimistic concurrency with If-Match..."
+stale_update_response=$(make_request "PUT" "$BASE_URL/fhir/Patient/$PATIENT_ID" "$patient_update_data" 412 "-H x-organization-id:$ORGANIZATION_ID -H If-Match:1")
+current_update_response=$(make_request "PUT" "$BASE_URL/fhir/Patient/$PATIENT_ID" "$patient_update_data" 200 "-H x-organization-id:$ORGANIZATION_ID -H If-Match:2")
+if ! echo "$current_update_response" | grep -q '"versionId":"3"'; then
+    print_error "Update with a matching If-Match should create version 3"
+    exit 1
+fi
+print_status "If-Match concurrency check passed ✓"
+echo
+
+# Test 61: Transaction Bundle
+print_header "Testing transaction Bundle processing..."
+transaction_data='{
+    "resourceType": "Bundle",
+    "type": "transaction",
+    "entry": [
+        {
+            "fullUrl": "urn:uuid:61c9d1a4-5f0e-4b8e-9d6a-0a4f3c1b2e01",
+            "resource": {
+                "resourceType": "Appointment",
+                "status": "booked",
+                "description": "Intake consultation",
+                "start": "2024-02-01T10:00:00Z",
+                "end": "2024-02-01T10:30:00Z",
+                "patientId": "urn:uuid:61c9d1a4-5f0e-4b8e-9d6a-0a4f3c1b2e02",
+                "practitionerId": "'$PRACTITIONER_ID'"
+            },
+            "request": { "method": "POST", "url": "Appointment" }
+        },
+        {
+            "fullUrl": "urn:uuid:61c9d1a4-5f0e-4b8e-9d6a-0a4f3c1b2e02",
+            "resource": {
+                "resourceType": "Patient",
+                "name": [{ "use": "official", "family": "Intake", "given": ["Bundle"] }],
+                "gender": "female"
+            },
+            "request": { "method": "POST", "url": "Patient" }
+        }
+    ]
+}'
+transaction_response=$(make_request "POST" "$BASE_URL/fhir" "$transaction_data" 200 "-H x-organization-id:$ORGANIZATION_ID")
+if ! echo "$transaction_response" | grep -q '"type":"transaction-response"' || [ "$(echo "$transaction_response" | grep -o '"status":"201 Created"' | wc -l)" -ne 2 ]; then
+    print_error "Transaction Bundle should create both the patient and the appointment"
+    exit 1
+fi
+print_status "Transaction Bundle passed ✓"
+echo
+
+# Test 62: CapabilityStatement
+print_header "Testing FHIR CapabilityStatement..."
+metadata_response=$(make_public_request "GET" "$BASE_URL/fhir/metadata" "" 200)
+if ! echo "$metadata_response" | grep -q '"resourceType":"CapabilityStatement"' || ! echo "$metadata_response" | grep -q '"type":"Patient"'; then
+    print_error "Metadata should return a CapabilityStatement listing the Patient resource"
+    exit 1
+fi
+print_status "CapabilityStatement passed ✓"
+echo
+
+# Test 63: JSON Patch
+print_header "Testing JSON Patch on Patient..."
+patient_patch_data='[
+    { "op": "test", "path": "/resourceType", "value": "Patient" },
+    { "op": "add", "path": "/telecom/-", "value": { "system": "phone", "value": "+1-555-000-1111", "use": "mobile" } }
+]'
+patch_response=$(make_request "PATCH" "$BASE_URL/fhir/Patient/$PATIENT_ID" "$patient_patch_data" 200 "-H x-organization-id:$ORGANIZATION_ID -H If-Match:3" "application/json-patch+json")
+if ! echo "$patch_response" | grep -q '+1-555-000-1111' || ! echo "$patch_response" | grep -q '"versionId":"4"'; then
+    print_error "JSON Patch should update the phone number and create version 4"
+    exit 1
+fi
+invalid_patch_data='[{ "op": "remove", "path": "/name" }]'
+make_request "PATCH" "$BASE_URL/fhir/Patient/$PATIENT_ID" "$invalid_patch_data" 422 "-H x-organization-id:$ORGANIZATION_ID" "application/json-patch+json" > /dev/null
+fhirpath_patch_data='{
+    "resourceType": "Parameters",
+    "parameter": [{ "name": "operation", "part": [{ "name": "type", "valueCode": "delete" }, { "name": "path", "valueString": "Patient.telecom" }] }]
+}'
+make_request "PATCH" "$BASE_URL/fhir/Patient/$PATIENT_ID" "$fhirpath_patch_data" 415 "-H x-organization-id:$ORGANIZATION_ID" "application/fhir+json" > /dev/null
+print_status "JSON Patch passed ✓"
+echo
+
+# Test 64: Conditional Create and Update
+print_header "Testing conditional create and update..."
+conditional_practitioner_response=$(make_request "POST" "$BASE_URL/fhir/Practitioner" "$practitioner_data" 200 "-H x-organization-id:$ORGANIZATION_ID -H If-None-Exist:identifier=http://hl7.org/fhir/sid/us-npi|1234567890")
+if ! echo "$conditional_practitioner_response" | grep -q "\"id\":\"$PRACTITIONER_ID\""; then
+    print_error "If-None-Exist should return the existing practitioner"
+    exit 1
+fi
+conditional_patient_data='{
+    "resourceType": "Patient",
+    "identifier": [{ "system": "http://example.org/hl7-feed", "value": "MRN-64" }],
+    "name": [{ "use": "official", "family": "Feed", "given": ["Conditional"] }]
+}'
+conditional_create_response=$(make_request "PUT" "$BASE_URL/fhir/Patient?identifier=http://example.org/hl7-feed%7CMRN-64" "$conditional_patient_data" 201 "-H x-organization-id:$ORGANIZATION_ID")
+CONDITIONAL_PATIENT_ID=$(extract_id "$conditional_create_response")
+conditional_update_response=$(make_request "PUT" "$BASE_URL/fhir/Patient?identifier=http://example.org/hl7-feed%7CMRN-64" "$conditional_patient_data" 200 "-H x-organization-id:$ORGANIZATION_ID")
+if ! echo "$conditional_update_response" | grep -q "\"id\":\"$CONDITIONAL_PATIENT_ID\""; then
+    print_error "Conditional update should update the patient it created"
+    exit 1
+fi
+print_status "Conditional create and update passed ✓"
+echo
+
+# Test 65: Resource Validation
+print_header "Testing resource validation..."
+invalid_patient_data='{
+    "resourceType": "Patient",
+    "name": [{ "use": "official", "family": "Validate" }],
+    "gender": "robot",
+    "telecom": [{ "system": "pigeon", "value": "+1-555-000-6565" }]
+}'
+validate_response=$(make_request "POST" "$BASE_URL/fhir/Patient/\$validate" "$invalid_patient_data" 200 "-H x-organization-id:$ORGANIZATION_ID")
+if ! echo "$validate_response" | grep -q '"expression":\["Patient.gender"\]' || ! echo "$validate_response" | grep -q '"expression":\["Patient.telecom\[0\].system"\]'; then
+    print_error "\$validate should report each invalid element with its expression"
+    exit 1
+fi
+make_request "POST" "$BASE_URL/fhir/Patient" "$invalid_patient_data" 400 "-H x-organization-id:$ORGANIZATION_ID" > /dev/null
+print_status "Resource validation passed ✓"
+echo
+
+# Test 66: JSON Patch on Resources with Empty Optional Fields
+print_header "Testing JSON Patch with empty optional fields..."
+sparse_appointment_data='{
+    "resourceType": "Appointment",
+    "status": "proposed",
+    "start": "2024-03-01T09:00:00Z",
+    "end": "2024-03-01T09:15:00Z",
+    "patientId": "'$PATIENT_ID'",
+    "practitionerId": "'$PRACTITIONER_ID'"
+}'
+sparse_appointment_response=$(make_request "POST" "$BASE_URL/fhir/Appointment" "$sparse_appointment_data" 201 "-H x-organization-id:$ORGANIZATION_ID")
+SPARSE_APPOINTMENT_ID=$(extract_id "$sparse_appointment_response")
+sparse_patch_data='[{ "op": "replace", "path": "/status", "value": "booked" }]'
+sparse_patch_response=$(make_request "PATCH" "$BASE_URL/fhir/Appointment/$SPARSE_APPOINTMENT_ID" "$sparse_patch_data" 200 "-H x-organization-id:$ORGANIZATION_ID" "application/json-patch+json")
+if echo "$sparse_patch_response" | grep -q '"description":""\|"comment":""\|"minutesDuration":0'; then
+    print_error "JSON Patch should leave empty optional fields empty"
+    exit 1
+fi
+active_patch_data='[{ "op": "add", "path": "/active", "value": true }]'
+make_request "PATCH" "$BASE_URL/fhir/Patient/$CONDITIONAL_PATIENT_ID" "$active_patch_data" 200 "-H x-organization-id:$ORGANIZATION_ID" "application/json-patch+json" > /dev/null
+print_status "JSON Patch with empty optional fields passed ✓"
+echo
+
+# Test 67: Encounter Date Search
+print_header "Testing encounter search by date..."
+encounter_date_response=$(make_request "GET" "$BASE_URL/fhir/Encounter?date=2024-02&patient=$PATIENT_ID" "" 200 "-H x-organization-id:$ORGANIZATION_ID")
+if ! echo "$encounter_date_response" | grep -q "/fhir/Encounter/$ENCOUNTER_ID"; then
+    print_error "An ongoing encounter should match dates after its start"
+    exit 1
+fi
+encounter_before_response=$(make_request "GET" "$BASE_URL/fhir/Encounter?date=lt2024-01-15&patient=$PATIENT_ID" "" 200 "-H x-organization-id:$ORGANIZATION_ID")
+if ! echo "$encounter_before_response" | grep -q '"total":0'; then
+    print_error "Encounters starting after the searched range should not match"
+    exit 1
+fi
+offset_encounter_data='{
+    "resourceType": "Encounter",
+    "status": "finished",
+    "class": { "system": "http://terminology.hl7.org/CodeSystem/v3-ActCode", "code": "AMB" },
+    "period": { "start": "2024-05-11T01:30:00+03:00", "end": "2024-05-11T02:00:00+03:00" },
+    "patientId": "'$PATIENT_ID'",
+    "practitionerId": "'$PRACTITIONER_ID'"
+}'
+OFFSET_ENCOUNTER_ID=$(extract_id "$(make_request "POST" "$BASE_URL/fhir/Encounter" "$offset_encounter_data" 201 "-H x-organization-id:$ORGANIZATION_ID")")
+offset_date_response=$(make_request "GET" "$BASE_URL/fhir/Encounter?date=2024-05-10&patient=$PATIENT_ID" "" 200 "-H x-organization-id:$ORGANIZATION_ID")
+offset_next_day_response=$(make_request "GET" "$BASE_URL/fhir/Encounter?date=2024-05-11&patient=$PATIENT_ID" "" 200 "-H x-organization-id:$ORGANIZATION_ID")
+if ! echo "$offset_date_response" | grep -q "/fhir/Encounter/$OFFSET_ENCOUNTER_ID" || echo "$offset_next_day_response" | grep -q "/fhir/Encounter/$OFFSET_ENCOUNTER_ID"; then
+    print_error "Period times with a timezone offset should be compared as instants"
+    exit 1
+fi
+date_only_encounter_data='{
+    "resourceType": "Encounter",
+    "status": "finished",
+    "class": { "system": "http://terminology.hl7.org/CodeSystem/v3-ActCode", "code": "AMB" },
+    "period": { "start": "2024-06-01", "end": "2024-06-01" },
+    "patientId": "'$PATIENT_ID'",
+    "practitionerId": "'$PRACTITIONER_ID'"
+}'
+DATE_ONLY_ENCOUNTER_ID=$(extract_id "$(make_request "POST" "$BASE_URL/fhir/Encounter" "$date_only_encounter_data" 201 "-H x-organization-id:$ORGANIZATION_ID")")
+date_only_response=$(make_request "GET" "$BASE_URL/fhir/Encounter?date=ge2024-06-01T12:00:00Z&date=lt2024-06-02&patient=$PATIENT_ID" "" 200 "-H x-organization-id:$ORGANIZATION_ID")
+if ! echo "$date_only_response" | grep -q "/fhir/Encounter/$DATE_ONLY_ENCOUNTER_ID"; then
+    print_error "A date-only period should cover the whole day"
+    exit 1
+fi
+make_request "GET" "$BASE_URL/fhir/Encounter?date=2024-13" "" 400 "-H x-organization-id:$ORGANIZATION_ID" > /dev/null
+print_status "Encounter date search passed ✓"
+echo
+
+# Test 68: Transaction Bundle with a Matching Conditional Create
+print_header "Testing transaction Bundle with a matching conditional create..."
+conditional_transaction_data='{
+    "resourceType": "Bundle",
+    "type": "transaction",
+    "entry": [
+        {
+            "fullUrl": "urn:uuid:68b2e0c4-1d7a-4f3e-8c5b-2a9d6e4f1c01",
+            "resource": {
+                "resourceType": "Appointment",
+                "status": "booked",
+                "description": "Feed follow-up",
+                "start": "2024-04-01T10:00:00Z",
+                "end": "2024-04-01T10:30:00Z",
+                "patientId": "urn:uuid:68b2e0c4-1d7a-4f3e-8c5b-2a9d6e4f1c02",
+                "practitionerId": "'$PRACTITIONER_ID'"
+            },
+            "request": { "method": "POST", "url": "Appointment" }
+        },
+        {
+            "fullUrl": "urn:uuid:68b2e0c4-1d7a-4f3e-8c5b-2a9d6e4f1c02",
+            "resource": '"$conditional_patient_data"',
+            "request": { "method": "POST", "url": "Patient", "ifNoneExist": "identifier=http://example.org/hl7-feed|MRN-64" }
+        }
+    ]
+}'
+conditional_transaction_response=$(make_request "POST" "$BASE_URL/fhir" "$conditional_transaction_data" 200 "-H x-organization-id:$ORGANIZATION_ID")
+if ! echo "$conditional_transaction_response" | grep -q '"status":"200 OK"' || ! echo "$conditional_transaction_response" | grep -q "\"reference\":\"Patient/$CONDITIONAL_PATIENT_ID\""; then
+    print_error "Entries should reference the patient matched by a conditional create"
+    exit 1
+fi
+print_status "Transaction Bundle with a matching conditional create passed ✓"
+echo
+
+# Test 69: Batch Bundle with Many Entries
+print_header "Testing batch Bundle with many entries..."
+batch_entries=""
+for i in $(seq 1 100); do
+    batch_entries="$batch_entries${batch_entries:+,}{ \"request\": { \"method\": \"GET\", \"url\": \"Patient/$PATIENT_ID\" } }"
+done
+large_batch_response=$(make_request "POST" "$BASE_URL/fhir" "{ \"resourceType\": \"Bundle\", \"type\": \"batch\", \"entry\": [$batch_entries] }" 200 "-H x-organization-id:$ORGANIZATION_ID")
+if [ "$(echo "$large_batch_response" | grep -o '"status":"200 OK"' | wc -l)" -ne 100 ]; then
+    print_error "Bundle entries should not be rate limited one by one"
+    exit 1
+fi
+make_request "GET" "$BASE_URL/fhir/Patient/$PATIENT_ID" "" 200 "-H x-organization-id:$ORGANIZATION_ID" > /dev/null
+print_status "Batch Bundle with many entries passed ✓"
+echo
+
+# Test 70: Organization Update Keeps the Identifier
+print_header "Testing organization update without an identifier..."
+receiving_org_identifier=$(echo "$receiving_org_response" | grep -o '"identifier":\[{"value":"[^"]*"}\]')
+org_update_data='{
+    "resourceType": "Organization",
+    "name": "Specialty Cardiology Clinic West",
+    "type": [{"text": "clinic"}],
+    "active": true
+}'
+org_update_response=$(make_request "PUT" "$BASE_URL/fhir/Organization/$RECEIVING_ORGANIZATION_ID" "$org_update_data" 200)
+identifier_patch_data='[{ "op": "remove", "path": "/identifier" }]'
+org_patch_response=$(make_request "PATCH" "$BASE_URL/fhir/Organization/$RECEIVING_ORGANIZATION_ID" "$identifier_patch_data" 200 "" "application/json-patch+json")
+if [ -z "$receiving_org_identifier" ] || ! echo "$org_update_response" | grep -qF "$receiving_org_identifier" || ! echo "$org_patch_response" | grep -qF "$receiving_org_identifier"; then
+    print_error "Updating an organization without an identifier should keep the stored one"
+    exit 1
+fi
+print_status "Organization update without an identifier passed ✓"
+echo
+
 echo "================================================"
 print_status "All tests passed successfully! ✅"
 echo "================================================"
@@ -449,15 +1234,56 @@ echo "- Organization Management: ✓"
 echo "- Patient Management: ✓"
 echo "- Practitioner Management: ✓"
 echo "- Appointment Management: ✓"
+echo "- Encounter Management: ✓"
 echo "- Organization Assignments: ✓"
 echo "- Organization Switching: ✓"
 echo "- Token Refresh: ✓"
+echo "- Observation Management: ✓"
+echo "- Medication & Prescription Management: ✓"
+echo "- Service Request Management: ✓"
+echo "- Diagnostic Report Management: ✓"
+echo "- Referral Management: ✓"
+echo "- Billing and Payments: ✓"
+echo "- Invoice Aging Report: ✓"
+echo "- Inventory Stock Ledger: ✓"
+echo "- Inventory Alerts: ✓"
+echo "- Equipment Maintenance: ✓"
+echo "- Staff Directory: ✓"
+echo "- Medication Dispensing: ✓"
+echo "- Search Paging: ✓"
+echo "- Patient and Practitioner Search: ✓"
+echo "- Date Prefix Search: ✓"
+echo "- Search Sorting and Subsetting: ✓"
+echo "- Appointment Includes: ✓"
+echo "- Resource History: ✓"
+echo "- Optimistic Concurrency: ✓"
+echo "- Transaction Bundles: ✓"
+echo "- Capability Statement: ✓"
+echo "- JSON Patch: ✓"
+echo "- Conditional Create and Update: ✓"
+echo "- Resource Validation: ✓"
+echo "- JSON Patch with Empty Optional Fields: ✓"
+echo "- Encounter Date Search: ✓"
+echo "- Bundle Conditional Create: ✓"
+echo "- Large Bundles: ✓"
+echo "- Organization Identifier Preservation: ✓"
 echo ""
 print_status "Created Resources:"
 echo "- Organization ID: $ORGANIZATION_ID"
 echo "- Patient ID: $PATIENT_ID"
 echo "- Practitioner ID: $PRACTITIONER_ID"
 echo "- Appointment ID: $APPOINTMENT_ID (cancelled)"
+echo "- Encounter ID: $ENCOUNTER_ID"
+echo "- Observation ID: $OBSERVATION_ID"
+echo "- Medication ID: $MEDICATION_ID"
+echo "- Medication Request ID: $MEDICATION_REQUEST_ID"
+echo "- Service Request ID: $SERVICE_REQUEST_ID"
+echo "- Diagnostic Report ID: $DIAGNOSTIC_REPORT_ID"
+echo "- Referral ID: $REFERRAL_ID"
+echo "- Invoice ID: $INVOICE_ID"
+echo "- Inventory Item ID: $INVENTORY_ITEM_ID"
+echo "- Equipment ID: $EQUIPMENT_ID"
+echo "- Staff ID: $STAFF_ID"
 echo ""
 print_status "API Base URL: $BASE_URL"
 print_status "Documentation: $BASE_URL/docs"